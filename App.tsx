@@ -1,80 +1,442 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { FilterItem, UploadedImage, TryOnItem, ClassifyingItem } from './types';
-import { virtualTryOn, classifyClothingItem, editImage, generateVideo } from './services/geminiService';
-import { loadCatalogueFromStorage, saveCatalogueToStorage, clearAllCataloguesFromStorage } from './utils/storage';
-import { readFileAsBase64, base64ToBlob } from './utils/imageUtils';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { FilterItem, UploadedImage, Provenance, GeneratedVideo, TryOnItem, ClassifyingItem, RequestJob, GenerationJob, VideoJob, ClothingClassification, CleanupReview, CategoryCorrection, ClassificationHint, Presentation, Wardrobe, DuplicateResolution, SavedLook } from './types';
+import { getGenerationProvider, GenerationProvider } from './services/generationProvider';
+import { requestScheduler } from './services/requestScheduler';
+import { jobManager, JobSpec } from './services/jobManager';
+import { ServiceError, AuthError, InvalidRequestError, NoImageReturnedError, toServiceError } from './services/errors';
+import { computeCacheKey, withResultCache, getResultCacheStats, clearResultCache, CacheStats } from './services/resultCache';
+import { waitForVideo, DEFAULT_VIDEO_MAX_WAIT_MS, VIDEO_MAX_WAIT_OPTIONS_MS } from './services/videoJobs';
+import { saveVideoJobToStorage, loadVideoJobFromStorage, clearVideoJobFromStorage, saveCacheEnabledToStorage, loadCacheEnabledFromStorage, loadCategoryCorrectionsFromStorage, saveCategoryCorrectionsToStorage, loadActiveWardrobeIdFromStorage, saveActiveWardrobeIdToStorage, loadPresentationFromStorage, savePresentationToStorage, loadSavedLooksFromStorage, saveSavedLooksToStorage, loadGarmentCleanupEnabledFromStorage, saveGarmentCleanupEnabledToStorage } from './utils/storage';
+import { loadCatalogue, saveCatalogue, clearAllCatalogues, getStorageEstimate, StorageEstimate, loadWardrobes, saveWardrobe, deleteWardrobe } from './utils/catalogueStore';
+import { loadSession, saveWorkspace, saveResults, clearSession } from './utils/sessionStore';
+import { applyCatalogueImport, BundledWardrobe, CatalogueSet, ImportOptions, ImportSummary } from './utils/catalogueBundle';
+import { base64ToBlob, detectBase64ImageMimeType, revokeImageUrls, revokeItemImageUrls, createThumbnailDataUrl } from './utils/imageUtils';
+import { ingestImage, GARMENT_INGEST_OPTIONS } from './utils/imageIngest';
+import { queueGarmentCleanup, getTryOnImage } from './utils/garmentCleanup';
+import { getPerceptualHash, hashDistance, DUPLICATE_HASH_DISTANCE } from './utils/perceptualHash';
+import { downloadImage } from './utils/provenance';
+import { createLineage, getParent, getChildren, getAncestry, buildLineageTree } from './utils/lineage';
+import { sha256Hex } from './utils/hash';
+import { LookbookLook } from './utils/lookbook';
+import { planCombinations, selectCombinations, estimateTryOnBatch, PlanStrategy, DEFAULT_MAX_COMBINATIONS } from './utils/outfitPlanner';
 import Catalogue from './components/Catalogue';
 import ResultDisplay from './components/ResultDisplay';
 import { HeaderIcon, TryOnIcon, CameraIcon, PhotoIcon, CheckCircleIcon, TrashIcon, EditIcon, VideoIcon, DownloadIcon } from './components/icons';
 import LiveTryOn from './components/LiveTryOn';
 import ImageUploader from './components/ImageUploader';
-import { FEMALE_CATALOGUE_DATA, MALE_CATALOGUE_DATA } from './constants';
+import RequestQueue from './components/RequestQueue';
+import JobQueue from './components/JobQueue';
+import CacheControls from './components/CacheControls';
+import StorageUsage from './components/StorageUsage';
+import CatalogueTransfer from './components/CatalogueTransfer';
+import WardrobeSwitcher from './components/WardrobeSwitcher';
+import SavedLooks from './components/SavedLooks';
+import CombinationPlanner from './components/CombinationPlanner';
+import ProvenanceDrawer from './components/ProvenanceDrawer';
+import EditHistory from './components/EditHistory';
+import LookbookExport from './components/LookbookExport';
+import { EMPTY_CATALOGUE_DATA, DEFAULT_WARDROBE_NAME, PROMPT_TEMPLATE_VERSIONS } from './constants';
+import { createEmptyCategoryRecord } from './taxonomy';
 
 type CatalogueData = Record<string, FilterItem[]>;
 type SelectedItems = Record<string, FilterItem[]>;
-type CreativeMode = 'try-on' | 'edit' | 'video';
-
-const generateOutfitCombinations = (selectedItems: SelectedItems): TryOnItem[][] => {
-  const outfits: TryOnItem[][] = [];
-  const selectedCats = Object.keys(selectedItems).filter(cat => selectedItems[cat].length > 0);
-  const cartesian = <T,>(...arrays: T[][]): T[][] => {
-    const nonEmptyArrays = arrays.filter(arr => arr.length > 0);
-    if (nonEmptyArrays.length === 0) return [[]];
-    return nonEmptyArrays.reduce<T[][]>((acc, val) => acc.flatMap(d => val.map(e => [...d, e])), [[]]);
-  };
-  const toTryOnItem = (item: FilterItem, category: string): TryOnItem => ({ ...item, category });
-  const baseItems: TryOnItem[][] = [];
-  if (selectedItems.outfits.length > 0) {
-    baseItems.push(...selectedItems.outfits.map(item => [toTryOnItem(item, 'outfits')]));
-  } else {
-    const tops = selectedItems.tops.map(item => toTryOnItem(item, 'tops'));
-    const bottoms = selectedItems.bottoms.map(item => toTryOnItem(item, 'bottoms'));
-    cartesian(tops, bottoms).forEach(combo => baseItems.push(combo));
-  }
-  const footwear = selectedItems.footwear.map(item => toTryOnItem(item, 'footwear'));
-  const headwear = selectedItems.headwear.map(item => toTryOnItem(item, 'headwear'));
-  const accessories = selectedItems.accessories.map(item => toTryOnItem(item, 'accessories'));
-  const accessoryCombos = cartesian(footwear, headwear, accessories);
-  if (baseItems.length === 0) {
-    return accessoryCombos.filter(combo => combo.length > 0);
-  }
-  baseItems.forEach(base => {
-    accessoryCombos.forEach(combo => {
-      outfits.push([...base, ...combo]);
-    });
+type CreativeMode = GenerationJob['kind'];
+
+// What a try-on or edit job hands back: the image and the record of how it was made.
+interface GeneratedImage {
+  base64: string;
+  provenance: Provenance;
+}
+
+// Cached images are stored with the provenance of the run that made them, so a cache hit keeps
+// the original details and is only marked as cached.
+const readCachedImage = (stored: string, isFresh: boolean): GeneratedImage => {
+  const { base64, provenance } = JSON.parse(stored) as GeneratedImage;
+  return { base64, provenance: isFresh ? provenance : { ...provenance, cached: true } };
+};
+
+// Undo entries reverse a single edit rather than restoring a snapshot, so items uploaded
+// after the edit survive the undo.
+interface CatalogueUndoEntry {
+  label: string;
+  undo: () => void;
+  // Called once the entry leaves the stack without being undone, to release what only it kept alive.
+  discard?: () => void;
+}
+
+const insertAt = <T,>(list: T[], index: number, value: T): T[] => [...list.slice(0, index), value, ...list.slice(index)];
+
+// Releases the photos an edit swapped out of an item, once undo can no longer bring them back.
+const releaseReplacedImages = (previous: Pick<FilterItem, 'image' | 'cleanedImage'>, current: Pick<FilterItem, 'image' | 'cleanedImage'>) => {
+  if (previous.image.url !== current.image.url) revokeImageUrls(previous.image);
+  if (previous.cleanedImage && previous.cleanedImage.url !== current.cleanedImage?.url) revokeImageUrls(previous.cleanedImage);
+};
+
+const MAX_UNDO_ENTRIES = 20;
+// How many past corrections are shown to the classifier; enough to cover the usual mix-ups.
+const MAX_CLASSIFICATION_HINTS = 12;
+
+// The most recent correction for each described item, newest last; undescribed ones teach nothing.
+const toClassificationHints = (corrections: CategoryCorrection[]): ClassificationHint[] => {
+  const latest = new Map<string, ClassificationHint>();
+  corrections.filter(correction => correction.description).forEach(({ description, fromCategory, toCategory }) => {
+    latest.delete(description);
+    latest.set(description, { description, fromCategory, toCategory });
   });
-  return outfits;
+  return [...latest.values()].slice(-MAX_CLASSIFICATION_HINTS);
+};
+// Look thumbnails live in local storage, so they are kept tiny.
+const LOOK_THUMBNAIL_SIZE = 160;
+
+const PRESENTATION_OPTIONS: { value: Presentation; label: string }[] = [
+  { value: 'female', label: 'Female' },
+  { value: 'male', label: 'Male' },
+  { value: 'neutral', label: 'Not specified' },
+];
+
+const isJobActive = (job: GenerationJob) => job.status === 'queued' || job.status === 'running';
+
+const createWardrobe = (name: string): Wardrobe => ({ id: crypto.randomUUID(), name, createdAt: Date.now() });
+
+// `what` names the unsaved data, e.g. "styles" or "photos and results".
+const describeStorageError = (error: unknown, what: string): string => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return `Browser storage is full, so your latest ${what} were not saved. Remove some styles or clear the result cache to free up space.`;
+  }
+  return `Your latest ${what} could not be saved to browser storage. They will be lost when you close this page.`;
 };
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<CreativeMode>('try-on');
   const [selectedImage, setSelectedImage] = useState<UploadedImage | null>(null);
   const [workspaceItems, setWorkspaceItems] = useState<UploadedImage[]>([]);
-  const [generatedImages, setGeneratedImages] = useState<string[]>([]);
-  const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  // The displayed results are workspace items, which carry their provenance and survive a reload.
+  const [generatedImages, setGeneratedImages] = useState<UploadedImage[]>([]);
+  const [generatedVideo, setGeneratedVideo] = useState<GeneratedVideo | null>(null);
+  const [error, setError] = useState<ServiceError | null>(null);
   const [inputMode, setInputMode] = useState<'camera' | 'upload'>('camera');
   const [elapsedTime, setElapsedTime] = useState<number | null>(null);
-  const [gender, setGender] = useState<'female' | 'male'>('female');
+  const [presentation, setPresentation] = useState<Presentation>(() => loadPresentationFromStorage());
   const [classifyingItems, setClassifyingItems] = useState<ClassifyingItem[]>([]);
+  const [isGarmentCleanupEnabled, setIsGarmentCleanupEnabled] = useState<boolean>(() => loadGarmentCleanupEnabledFromStorage());
+  const [cleanupReviews, setCleanupReviews] = useState<CleanupReview[]>([]);
   const [isApiKeySelected, setIsApiKeySelected] = useState(false);
+  const [requestJobs, setRequestJobs] = useState<RequestJob[]>([]);
+  const [isCacheEnabled, setIsCacheEnabled] = useState<boolean>(() => loadCacheEnabledFromStorage());
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
 
   // Mode-specific state
   const [editPrompt, setEditPrompt] = useState<string>('Make this photo look like a vintage film still.');
   const [videoPrompt, setVideoPrompt] = useState<string>('A stunning, confident fashion model walking gracefully on a modern runway. The model walks with elegance, poise, and attitude — like in a high-end Paris Fashion Week show. The background features soft spotlights, glossy reflective floors, and a stylish atmosphere. The camera follows the model in slow motion, capturing the walk from multiple angles — full-body shots, close-ups, and side views. Lighting is cinematic, with a slight bokeh effect, and the overall tone feels luxurious, vibrant, and professional. The model maintains natural movements and stylish expressions while walking toward the camera. 4K ultra-realistic video, 60 fps, fashion show style.');
   const [videoAspectRatio, setVideoAspectRatio] = useState<'16:9' | '9:16'>('9:16');
+  const [videoMaxWaitMs, setVideoMaxWaitMs] = useState<number>(DEFAULT_VIDEO_MAX_WAIT_MS);
+  const [videoJob, setVideoJob] = useState<VideoJob | null>(null);
+  const hasResumedVideoRef = useRef(false);
+  // A video that finished while another mode was shown, handed over when the user comes back to video.
+  const unseenVideoRef = useRef<GeneratedVideo | null>(null);
+
+  const [generationJobs, setGenerationJobs] = useState<GenerationJob[]>([]);
+  const [isQueuePaused, setIsQueuePaused] = useState(false);
+  // The batch whose results the results panel shows. Results of other batches still reach the workspace.
+  const [displayedBatchId, setDisplayedBatchId] = useState<string | null>(null);
+  // Job callbacks outlive the render that created them, so they read the displayed batch from here.
+  const displayedBatchIdRef = useRef<string | null>(null);
+  // Batches whose first result has already been selected in the workspace.
+  const selectedBatchesRef = useRef(new Set<string>());
+  const jobErrorsRef = useRef(new Map<string, ServiceError>());
+  // The batch whose finish has been summarised as the elapsed time and error.
+  const summarisedBatchIdRef = useRef<string | null>(null);
+  // The photo each batch was started from, for comparing it with the results.
+  const batchSourcesRef = useRef(new Map<string, UploadedImage>());
+  // The generated image whose provenance is open in the details drawer.
+  const [detailsImage, setDetailsImage] = useState<UploadedImage | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [isLookbookOpen, setIsLookbookOpen] = useState(false);
+  // Looks only hold item ids, so they are cheap to keep for every wardrobe at once.
+  const [savedLooks, setSavedLooks] = useState<SavedLook[]>(() => loadSavedLooksFromStorage());
+  // Undo steps back to the image the selected one was made from; redo returns down the branch
+  // it came up, or else to the newest image made from it.
+  const redoTargetsRef = useRef(new Map<string, string>());
+  const isLoading = generationJobs.some((job: GenerationJob) => job.batchId === displayedBatchId && isJobActive(job));
 
-  const [femaleCatalogue, setFemaleCatalogue] = useState<CatalogueData>(() => loadCatalogueFromStorage('female') || FEMALE_CATALOGUE_DATA);
-  const [maleCatalogue, setMaleCatalogue] = useState<CatalogueData>(() => loadCatalogueFromStorage('male') || MALE_CATALOGUE_DATA);
+  const [wardrobes, setWardrobes] = useState<Wardrobe[]>([]);
+  const [catalogues, setCatalogues] = useState<CatalogueSet>({});
+  const [activeWardrobeId, setActiveWardrobeId] = useState<string | null>(null);
+  // Nothing is saved until the stored catalogues have loaded, so the empty initial state can never overwrite them.
+  const [isCatalogueLoaded, setIsCatalogueLoaded] = useState(false);
+  const [catalogueStorageError, setCatalogueStorageError] = useState<string | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const hasLoadedCataloguesRef = useRef(false);
+  // The catalogue objects last handed to the store, so only wardrobes that changed are saved.
+  const savedCataloguesRef = useRef<CatalogueSet>({});
 
-  useEffect(() => { saveCatalogueToStorage('female', femaleCatalogue); }, [femaleCatalogue]);
-  useEffect(() => { saveCatalogueToStorage('male', maleCatalogue); }, [maleCatalogue]);
+  const refreshStorageEstimate = useCallback(() => {
+    getStorageEstimate().then(setStorageEstimate);
+  }, []);
+
+  useEffect(() => {
+    // StrictMode runs mount effects twice in development; loading twice would duplicate every item.
+    if (hasLoadedCataloguesRef.current) return;
+    hasLoadedCataloguesRef.current = true;
+    const load = async () => {
+      try {
+        let storedWardrobes = await loadWardrobes();
+        if (storedWardrobes.length === 0) {
+          const wardrobe = createWardrobe(DEFAULT_WARDROBE_NAME);
+          await saveWardrobe(wardrobe);
+          storedWardrobes = [wardrobe];
+        }
+        const loaded = await Promise.all(storedWardrobes.map(wardrobe => loadCatalogue(wardrobe.id)));
+        const loadedCatalogues: CatalogueSet = Object.fromEntries(storedWardrobes.map((wardrobe, index) =>
+          [wardrobe.id, { ...EMPTY_CATALOGUE_DATA, ...loaded[index] }]
+        ));
+        const savedActiveId = loadActiveWardrobeIdFromStorage();
+        savedCataloguesRef.current = loadedCatalogues;
+        setWardrobes(storedWardrobes);
+        setCatalogues(loadedCatalogues);
+        setActiveWardrobeId(storedWardrobes.some(wardrobe => wardrobe.id === savedActiveId) ? savedActiveId : storedWardrobes[0].id);
+        setIsCatalogueLoaded(true);
+      } catch (err) {
+        console.error("Could not load catalogues from browser storage:", err);
+        // Keep the app usable with an unsaved wardrobe.
+        const wardrobe = createWardrobe(DEFAULT_WARDROBE_NAME);
+        setWardrobes([wardrobe]);
+        setCatalogues({ [wardrobe.id]: EMPTY_CATALOGUE_DATA });
+        setActiveWardrobeId(wardrobe.id);
+        setCatalogueStorageError("Your saved styles could not be loaded. New styles will not be saved until the page is reloaded.");
+      } finally {
+        refreshStorageEstimate();
+      }
+    };
+    load();
+  }, [refreshStorageEstimate]);
+
+  const persistCatalogueChange = useCallback(async (write: () => Promise<void>) => {
+    try {
+      await write();
+      setCatalogueStorageError(null);
+    } catch (err) {
+      console.error("Could not save catalogue to browser storage:", err);
+      setCatalogueStorageError(describeStorageError(err, 'styles'));
+    } finally {
+      refreshStorageEstimate();
+    }
+  }, [refreshStorageEstimate]);
+
+  useEffect(() => {
+    if (!isCatalogueLoaded) return;
+    Object.entries(catalogues).forEach(([wardrobeId, catalogue]: [string, CatalogueData]) => {
+      if (savedCataloguesRef.current[wardrobeId] !== catalogue) {
+        persistCatalogueChange(() => saveCatalogue(wardrobeId, catalogue));
+      }
+    });
+    savedCataloguesRef.current = catalogues;
+  }, [isCatalogueLoaded, catalogues, persistCatalogueChange]);
+
+  /**
+   * Applies a change to one wardrobe's catalogue. Ignored if the wardrobe has since been deleted,
+   * e.g. when a classification finishes after its wardrobe was removed.
+   */
+  const updateCatalogue = useCallback((wardrobeId: string, update: (catalogue: CatalogueData) => CatalogueData) => {
+    setCatalogues(prev => prev[wardrobeId] ? { ...prev, [wardrobeId]: update(prev[wardrobeId]) } : prev);
+  }, []);
+
+  // As with the catalogues, the session is only saved once the previous one has been restored.
+  const [isSessionLoaded, setIsSessionLoaded] = useState(false);
+  const [sessionStorageError, setSessionStorageError] = useState<string | null>(null);
+  const hasRestoredSessionRef = useRef(false);
+
+  useEffect(() => {
+    if (hasRestoredSessionRef.current) return;
+    hasRestoredSessionRef.current = true;
+    const restore = async () => {
+      try {
+        const session = await loadSession();
+        // Photos taken while the session was loading are newer, so they stay in front.
+        setWorkspaceItems(prev => [...prev, ...session.workspaceItems]);
+        setSelectedImage(prev => prev || session.selectedImage);
+        // A resumed video job owns the results area; its own effect takes over.
+        if (session.results && !loadVideoJobFromStorage()) {
+          setMode(session.results.mode);
+          setGeneratedImages(session.results.images);
+          setGeneratedVideo(session.results.video);
+          setElapsedTime(session.results.elapsedTime);
+        }
+        setIsSessionLoaded(true);
+      } catch (err) {
+        console.error("Could not restore the session from browser storage:", err);
+        setSessionStorageError("Your previous photos and results could not be restored. New ones will not be saved until the page is reloaded.");
+      }
+    };
+    restore();
+  }, []);
+
+  const persistSession = useCallback(async (save: () => Promise<void>) => {
+    try {
+      await save();
+      setSessionStorageError(null);
+    } catch (err) {
+      console.error("Could not save the session to browser storage:", err);
+      setSessionStorageError(describeStorageError(err, 'photos and results'));
+    } finally {
+      refreshStorageEstimate();
+    }
+  }, [refreshStorageEstimate]);
+
+  useEffect(() => {
+    if (isSessionLoaded) persistSession(() => saveWorkspace(workspaceItems, selectedImage));
+  }, [isSessionLoaded, workspaceItems, selectedImage, persistSession]);
+
+  useEffect(() => {
+    // Results are saved once a run finishes, not for every look that streams in.
+    if (isSessionLoaded && !isLoading) {
+      persistSession(() => saveResults({ mode, images: generatedImages, video: generatedVideo, elapsedTime }));
+    }
+  }, [isSessionLoaded, isLoading, mode, generatedImages, generatedVideo, elapsedTime, persistSession]);
+
+  useEffect(() => requestScheduler.subscribe(setRequestJobs), []);
+
+  useEffect(() => jobManager.subscribe(({ jobs, isPaused }) => {
+    setGenerationJobs(jobs);
+    setIsQueuePaused(isPaused);
+  }), []);
+
+  const refreshCacheStats = useCallback(() => {
+    getResultCacheStats().then(setCacheStats);
+  }, []);
+
+  useEffect(() => { refreshCacheStats(); }, [refreshCacheStats]);
+
+  const handleCacheToggle = (enabled: boolean) => {
+    setIsCacheEnabled(enabled);
+    saveCacheEnabledToStorage(enabled);
+  };
+
+  const handleClearCache = async () => {
+    if (window.confirm("Clear all cached try-on, edit and classification results?")) {
+      await clearResultCache();
+      refreshCacheStats();
+      refreshStorageEstimate();
+    }
+  };
+
+  /**
+   * Tracks a started video job until it finishes, fails or is cancelled. The job stays in
+   * storage for exactly as long as it is being followed, so a reload can pick it back up.
+   */
+  const followVideoJob = useCallback(async (provider: GenerationProvider, job: VideoJob, signal: AbortSignal): Promise<GeneratedVideo> => {
+    saveVideoJobToStorage(job);
+    setVideoJob(job);
+    try {
+      const url = await waitForVideo(provider, job, signal);
+      const provenance = job.provenance && { ...job.provenance, createdAt: Date.now(), durationMs: Date.now() - job.startedAt };
+      return { url, provenance };
+    } finally {
+      clearVideoJobFromStorage();
+      setVideoJob(null);
+    }
+  }, []);
+
+  const showBatch = (batchId: string | null) => {
+    displayedBatchIdRef.current = batchId;
+    setDisplayedBatchId(batchId);
+  };
+
+  // Every generated image goes to the workspace as soon as its job finishes; only the displayed
+  // batch's also appear as results, so a batch left running in another mode never overwrites them.
+  const routeImageResult = (job: GenerationJob, { base64, provenance }: GeneratedImage, name: string, source: UploadedImage, operation: string) => {
+    const mimeType = detectBase64ImageMimeType(base64);
+    const url = URL.createObjectURL(base64ToBlob(base64, mimeType));
+    const newItem: UploadedImage = { base64, mimeType, url, name, provenance, lineage: createLineage(source, operation) };
+    setWorkspaceItems(prev => [newItem, ...prev]);
+    if (job.batchId !== displayedBatchIdRef.current) return;
+    setGeneratedImages(prev => [...prev, newItem]);
+    if (!selectedBatchesRef.current.has(job.batchId)) {
+      selectedBatchesRef.current.add(job.batchId);
+      setSelectedImage(newItem);
+    }
+  };
+
+  const routeVideoResult = (video: GeneratedVideo, job: GenerationJob) => {
+    if (job.batchId === displayedBatchIdRef.current) {
+      setGeneratedVideo(video);
+    } else {
+      unseenVideoRef.current = video;
+    }
+  };
+
+  const handleJobFailure = (error: unknown, job: GenerationJob) => {
+    const serviceError = toServiceError(error);
+    jobErrorsRef.current.set(job.id, serviceError);
+    if (serviceError instanceof AuthError) {
+      setIsApiKeySelected(false);
+    }
+  };
+
+  // Once the displayed batch has nothing left to run, record how long it took and, if none of
+  // its jobs succeeded, why. Runs once per finish, so later job updates never overwrite an error
+  // set since; a retry makes the batch load again and so finish again.
+  useEffect(() => {
+    if (isLoading) {
+      summarisedBatchIdRef.current = null;
+      return;
+    }
+    if (!displayedBatchId || summarisedBatchIdRef.current === displayedBatchId) return;
+    const batchJobs = generationJobs.filter((job: GenerationJob) => job.batchId === displayedBatchId);
+    if (batchJobs.length === 0) return;
+    summarisedBatchIdRef.current = displayedBatchId;
+    const startedAt = Math.min(...batchJobs.map((job: GenerationJob) => job.createdAt));
+    const finishedAt = Math.max(...batchJobs.map((job: GenerationJob) => job.finishedAt || startedAt));
+    setElapsedTime((finishedAt - startedAt) / 1000);
+    const failedJob = batchJobs.some((job: GenerationJob) => job.status === 'succeeded')
+      ? undefined
+      : batchJobs.find((job: GenerationJob) => jobErrorsRef.current.has(job.id));
+    setError(failedJob ? jobErrorsRef.current.get(failedJob.id) || null : null);
+    refreshCacheStats();
+  }, [displayedBatchId, isLoading, generationJobs, refreshCacheStats]);
+
+  // Resume polling for a video job that was still running when the page was last closed.
+  useEffect(() => {
+    // StrictMode runs mount effects twice in development; only resume once.
+    if (hasResumedVideoRef.current) return;
+    hasResumedVideoRef.current = true;
+    const savedJob = loadVideoJobFromStorage();
+    if (!savedJob) return;
+    const resume = async () => {
+      const provider = await getGenerationProvider();
+      if (provider.name !== savedJob.provider) {
+        clearVideoJobFromStorage();
+        return;
+      }
+      setMode('video');
+      showBatch(jobManager.submit('video', [{
+        label: 'Video (resumed)',
+        startedAt: savedJob.startedAt,
+        // The operation is already running upstream; all that is left is to wait for it.
+        run: (signal: AbortSignal, releaseSlot: () => void) => {
+          releaseSlot();
+          return followVideoJob(provider, savedJob, signal);
+        },
+        onSuccess: routeVideoResult,
+        onFailure: handleJobFailure,
+      }]));
+    };
+    resume();
+  }, [followVideoJob]);
+
+  const handleCancelVideo = () => {
+    generationJobs.filter((job: GenerationJob) => job.kind === 'video' && isJobActive(job)).forEach((job: GenerationJob) => jobManager.cancel(job.id));
+  };
 
   // Check for Veo API key on mount and when mode changes to video
   useEffect(() => {
     if (mode === 'video') {
       const checkKey = async () => {
+        const provider = await getGenerationProvider();
+        if (!provider.requiresApiKeySelection) {
+          setIsApiKeySelected(true);
+          return;
+        }
         const hasKey = await window.aistudio.hasSelectedApiKey();
         setIsApiKeySelected(hasKey);
       };
@@ -82,81 +444,483 @@ const App: React.FC = () => {
     }
   }, [mode]);
 
-  const initialSelected: SelectedItems = { outfits: [], tops: [], bottoms: [], footwear: [], headwear: [], accessories: [] };
+  const initialSelected: SelectedItems = createEmptyCategoryRecord();
   const [selectedItems, setSelectedItems] = useState<SelectedItems>(initialSelected);
+  // The batch planner: which combinations of the selection a try-on actually generates.
+  const [planStrategy, setPlanStrategy] = useState<PlanStrategy>('all');
+  const [maxCombinations, setMaxCombinations] = useState(DEFAULT_MAX_COMBINATIONS);
+  const [excludedCombinationKeys, setExcludedCombinationKeys] = useState<Set<string>>(new Set());
 
   const handleItemAdd = useCallback((item: FilterItem, category: string) => {
-    const setCatalogue = gender === 'female' ? setFemaleCatalogue : setMaleCatalogue;
-    setCatalogue(prevCatalogue => ({
+    if (!activeWardrobeId) return;
+    // Uploads finish into the wardrobe they were started in, even if the user has switched since.
+    updateCatalogue(activeWardrobeId, prevCatalogue => ({
       ...prevCatalogue,
       [category]: [...(prevCatalogue[category] || []), item],
     }));
-  }, [gender]);
+  }, [activeWardrobeId, updateCatalogue]);
+
+  const currentCatalogue = (activeWardrobeId && catalogues[activeWardrobeId]) || EMPTY_CATALOGUE_DATA;
+  const [undoStack, setUndoStack] = useState<CatalogueUndoEntry[]>([]);
+
+  const pushUndo = useCallback((entry: CatalogueUndoEntry) => {
+    setUndoStack(prev => [...prev, entry].slice(-MAX_UNDO_ENTRIES));
+  }, []);
+
+  // Entries trimmed off the end or cleared can never be undone, so they are discarded here.
+  const undoneEntriesRef = useRef(new WeakSet<CatalogueUndoEntry>());
+  const previousUndoStackRef = useRef<CatalogueUndoEntry[]>([]);
+  useEffect(() => {
+    previousUndoStackRef.current
+      .filter(entry => !undoStack.includes(entry) && !undoneEntriesRef.current.has(entry))
+      .forEach(entry => entry.discard?.());
+    previousUndoStackRef.current = undoStack;
+  }, [undoStack]);
+
+  const handleItemUpdate = (updatedItem: FilterItem, category: string, targetCategory: string) => {
+    if (!activeWardrobeId) return;
+    const setCatalogue = (update: (catalogue: CatalogueData) => CatalogueData) => updateCatalogue(activeWardrobeId, update);
+    const items = currentCatalogue[category] || [];
+    const index = items.findIndex(item => item.id === updatedItem.id);
+    const previousItem = items[index];
+    if (!previousItem) return;
+    const wasSelected = (selectedItems[category] || []).some(item => item.id === updatedItem.id);
+
+    if (targetCategory === category) {
+      const replaceIn = (list: FilterItem[] = [], replacement: FilterItem) => list.map(item => item.id === replacement.id ? replacement : item);
+      setCatalogue(prev => ({ ...prev, [category]: replaceIn(prev[category], updatedItem) }));
+      // Keep the selection in sync so try-on uses the edited item.
+      setSelectedItems(prev => ({ ...prev, [category]: replaceIn(prev[category], updatedItem) }));
+      pushUndo({
+        label: `Updated "${updatedItem.name}".`,
+        undo: () => {
+          setCatalogue(prev => ({ ...prev, [category]: replaceIn(prev[category], previousItem) }));
+          setSelectedItems(prev => ({ ...prev, [category]: replaceIn(prev[category], previousItem) }));
+        },
+        discard: () => releaseReplacedImages(previousItem, updatedItem),
+      });
+      return;
+    }
+
+    // A move means the classifier got the category wrong; keep a record of it.
+    const correction: CategoryCorrection = {
+      itemId: updatedItem.id,
+      itemName: updatedItem.name,
+      fromCategory: category,
+      toCategory: targetCategory,
+      description: updatedItem.attributes?.description || '',
+      correctedAt: Date.now(),
+    };
+    saveCategoryCorrectionsToStorage([...loadCategoryCorrectionsFromStorage(), correction]);
+    setCatalogue(prev => ({
+      ...prev,
+      [category]: (prev[category] || []).filter(item => item.id !== updatedItem.id),
+      [targetCategory]: [...(prev[targetCategory] || []), updatedItem],
+    }));
+    setSelectedItems(prev => ({ ...prev, [category]: (prev[category] || []).filter(item => item.id !== updatedItem.id) }));
+    pushUndo({
+      label: `Moved "${updatedItem.name}" to ${targetCategory}.`,
+      undo: () => {
+        setCatalogue(prev => ({
+          ...prev,
+          [targetCategory]: (prev[targetCategory] || []).filter(item => item.id !== updatedItem.id),
+          [category]: insertAt(prev[category] || [], index, previousItem),
+        }));
+        if (wasSelected) setSelectedItems(prev => ({ ...prev, [category]: [...(prev[category] || []), previousItem] }));
+        saveCategoryCorrectionsToStorage(loadCategoryCorrectionsFromStorage().filter(c => c.itemId !== correction.itemId || c.correctedAt !== correction.correctedAt));
+      },
+      discard: () => releaseReplacedImages(previousItem, updatedItem),
+    });
+  };
+
+  const handleItemDelete = (deletedItem: FilterItem, category: string) => {
+    if (!activeWardrobeId) return;
+    const setCatalogue = (update: (catalogue: CatalogueData) => CatalogueData) => updateCatalogue(activeWardrobeId, update);
+    const index = (currentCatalogue[category] || []).findIndex(item => item.id === deletedItem.id);
+    const wasSelected = (selectedItems[category] || []).some(item => item.id === deletedItem.id);
+    setCatalogue(prev => ({ ...prev, [category]: (prev[category] || []).filter(item => item.id !== deletedItem.id) }));
+    setSelectedItems(prev => ({ ...prev, [category]: (prev[category] || []).filter(item => item.id !== deletedItem.id) }));
+    pushUndo({
+      label: `Deleted "${deletedItem.name}".`,
+      undo: () => {
+        setCatalogue(prev => ({ ...prev, [category]: insertAt(prev[category] || [], index, deletedItem) }));
+        if (wasSelected) setSelectedItems(prev => ({ ...prev, [category]: [...(prev[category] || []), deletedItem] }));
+      },
+      discard: () => revokeItemImageUrls(deletedItem),
+    });
+  };
+
+  const handleUndo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    undoneEntriesRef.current.add(entry);
+    entry.undo();
+    setUndoStack(prev => prev.slice(0, -1));
+  };
+
+  // Uploads that have been hashed but not yet added, in the order they arrived.
+  const inFlightUploadsRef = useRef(new Map<string, { hash: string; name: string; url: string }>());
+  // Resolves the choice for each upload waiting on a duplicate prompt.
+  const duplicateResolversRef = useRef(new Map<string, (resolution: DuplicateResolution) => void>());
+  // Uploads compare against the catalogue as it is when they finish ingesting, not when they started.
+  const latestCataloguesRef = useRef<CatalogueSet>(catalogues);
+  latestCataloguesRef.current = catalogues;
+
+  // Finds the catalogue item or earlier in-flight upload an upload most likely duplicates.
+  const findDuplicate = useCallback(async (uploadId: string, hash: string, wardrobeId: string): Promise<{ item?: FilterItem; duplicateOf: NonNullable<ClassifyingItem['duplicateOf']> } | null> => {
+    for (const [id, upload] of inFlightUploadsRef.current) {
+      if (id === uploadId) break;
+      if (hashDistance(hash, upload.hash) <= DUPLICATE_HASH_DISTANCE) {
+        return { duplicateOf: { name: upload.name, url: upload.url, inCatalogue: false } };
+      }
+    }
+    const catalogue: CatalogueData = latestCataloguesRef.current[wardrobeId] || {};
+    const items = Object.values(catalogue).flat();
+    for (const item of items) {
+      const itemHash = await getPerceptualHash(item.image);
+      if (itemHash && hashDistance(hash, itemHash) <= DUPLICATE_HASH_DISTANCE) {
+        return { item, duplicateOf: { name: item.name, url: item.image.thumbnailUrl || item.image.url, inCatalogue: true } };
+      }
+    }
+    return null;
+  }, []);
+
+  const handleResolveDuplicate = (uploadId: string, resolution: DuplicateResolution) => {
+    duplicateResolversRef.current.get(uploadId)?.(resolution);
+    duplicateResolversRef.current.delete(uploadId);
+  };
+
+  // Swaps in a re-uploaded photo for an existing item, keeping its name, category and attributes.
+  const replaceItemImage = useCallback((wardrobeId: string, target: FilterItem, image: UploadedImage, cleanedImage?: UploadedImage) => {
+    type ItemImages = Pick<FilterItem, 'image' | 'cleanedImage'>;
+    let previousImages: ItemImages | null = null;
+    const swapImage = (catalogue: CatalogueData, getImages: (item: FilterItem) => ItemImages): CatalogueData =>
+      Object.fromEntries(Object.entries(catalogue).map(([category, items]) => [
+        category,
+        items.map(item => item.id === target.id ? { ...item, ...getImages(item) } : item),
+      ]));
+    updateCatalogue(wardrobeId, prev => swapImage(prev, item => {
+      previousImages = { image: item.image, cleanedImage: item.cleanedImage };
+      return { image, cleanedImage };
+    }));
+    setSelectedItems(prev => swapImage(prev, () => ({ image, cleanedImage })));
+    pushUndo({
+      label: `Replaced the photo of "${target.name}".`,
+      undo: () => {
+        if (!previousImages) return;
+        const restored = previousImages;
+        updateCatalogue(wardrobeId, prev => swapImage(prev, () => restored));
+        setSelectedItems(prev => swapImage(prev, () => restored));
+      },
+      discard: () => {
+        if (previousImages) releaseReplacedImages(previousImages, { image, cleanedImage });
+      },
+    });
+  }, [updateCatalogue, pushUndo]);
+
+  const handleGarmentCleanupToggle = (enabled: boolean) => {
+    setIsGarmentCleanupEnabled(enabled);
+    saveGarmentCleanupEnabledToStorage(enabled);
+  };
+
+  // Keeping the cleaned copy needs no change; going back to the original drops it from the item,
+  // undoably, so the cleaned copy is only released once the undo is gone.
+  const handleResolveCleanup = (review: CleanupReview, keepCleaned: boolean) => {
+    setCleanupReviews(prev => prev.filter(candidate => candidate.itemId !== review.itemId));
+    if (keepCleaned) return;
+    const item = Object.values<FilterItem[]>(catalogues[review.wardrobeId] || {}).flat().find((candidate: FilterItem) => candidate.id === review.itemId);
+    const cleanedImage = item?.cleanedImage;
+    if (!item || !cleanedImage) return;
+    const setCleaned = (image: UploadedImage | undefined) => (catalogue: CatalogueData): CatalogueData =>
+      Object.fromEntries(Object.entries(catalogue).map(([category, items]) => [
+        category,
+        items.map(candidate => candidate.id === review.itemId ? { ...candidate, cleanedImage: image } : candidate),
+      ]));
+    updateCatalogue(review.wardrobeId, setCleaned(undefined));
+    setSelectedItems(setCleaned(undefined));
+    pushUndo({
+      label: `Went back to the original photo of "${item.name}".`,
+      undo: () => {
+        updateCatalogue(review.wardrobeId, setCleaned(cleanedImage));
+        setSelectedItems(setCleaned(cleanedImage));
+      },
+      discard: () => revokeImageUrls(cleanedImage),
+    });
+  };
 
   const handleStyleUpload = useCallback(async (files: File[]) => {
-    const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
-    for (const file of files) {
-      const tempId = `${Date.now()}-${file.name}`;
+    if (!activeWardrobeId) return;
+    const wardrobeId = activeWardrobeId;
+    const hints = toClassificationHints(loadCategoryCorrectionsFromStorage());
+    // Files are classified in parallel; the shared request scheduler paces the actual API calls.
+    await Promise.all(files.map(async (file) => {
+      // Keys the upload's progress, duplicate prompt and, once added, the catalogue item itself.
+      const tempId = crypto.randomUUID();
       const fileUrl = URL.createObjectURL(file);
-      setClassifyingItems(prev => [...prev, { id: tempId, name: file.name, url: fileUrl, error: null }]);
+      setClassifyingItems(prev => [...prev, { id: tempId, name: file.name, url: fileUrl, status: 'queued', error: null }]);
       try {
-        const base64String = await readFileAsBase64(file);
-        const category = await classifyClothingItem(base64String, file.type);
-        const uploadedImage: UploadedImage = { base64: base64String, mimeType: file.type, url: fileUrl, name: file.name };
-        const newItem: FilterItem = { id: tempId, name: file.name.split('.').slice(0, -1).join('.') || 'Style Item', image: uploadedImage };
+        // The classifier and the catalogue both get the upright, resized copy, never the raw upload.
+        const uploadedImage = await ingestImage(file, GARMENT_INGEST_OPTIONS);
+        URL.revokeObjectURL(fileUrl);
+        const previewUrl = uploadedImage.thumbnailUrl || uploadedImage.url;
+        setClassifyingItems(prev => prev.map(item => item.id === tempId ? { ...item, url: previewUrl } : item));
+        // Cleanup runs one photo at a time, and only for uploads that are kept; a photo it cannot
+        // make sense of is simply kept as it is.
+        const cleanUp = (): Promise<UploadedImage | null> => isGarmentCleanupEnabled
+          ? queueGarmentCleanup(uploadedImage).catch(err => {
+            console.warn(`Could not clean up the background of ${file.name}:`, err);
+            return null;
+          })
+          : Promise.resolve(null);
+        const queueReview = (itemId: string, cleanedImage: UploadedImage | null) => {
+          if (!cleanedImage) return;
+          setCleanupReviews(prev => [...prev, { itemId, wardrobeId, name: file.name, originalUrl: previewUrl, cleanedUrl: cleanedImage.url }]);
+        };
+
+        // Bulk drops of supplier folders often repeat photos; catch them before paying to classify.
+        if (uploadedImage.perceptualHash) {
+          inFlightUploadsRef.current.set(tempId, { hash: uploadedImage.perceptualHash, name: file.name, url: previewUrl });
+          const duplicate = await findDuplicate(tempId, uploadedImage.perceptualHash, wardrobeId);
+          if (duplicate) {
+            setClassifyingItems(prev => prev.map(item => item.id === tempId ? { ...item, status: 'duplicate', duplicateOf: duplicate.duplicateOf } : item));
+            const resolution = await new Promise<DuplicateResolution>(resolve => duplicateResolversRef.current.set(tempId, resolve));
+            if (resolution !== 'keep-both') {
+              if (resolution === 'replace' && duplicate.item) {
+                const cleanedImage = await cleanUp();
+                replaceItemImage(wardrobeId, duplicate.item, uploadedImage, cleanedImage || undefined);
+                queueReview(duplicate.item.id, cleanedImage);
+              } else {
+                revokeImageUrls(uploadedImage);
+              }
+              setClassifyingItems(prev => prev.filter(item => item.id !== tempId));
+              return;
+            }
+            setClassifyingItems(prev => prev.map(item => item.id === tempId ? { ...item, status: 'queued', duplicateOf: undefined } : item));
+          }
+        }
+
+        const provider = await getGenerationProvider();
+        // `schema` versions the cached value's shape: v2 added attributes alongside the category,
+        // v3 the taxonomy's sub-categories. New corrections change the hints, and so the key.
+        const cacheKey = await computeCacheKey('classify', { provider: provider.name, model: provider.models.classification, schema: 3, hints }, [uploadedImage.base64]);
+        const cached = await withResultCache('classify', cacheKey, async () => JSON.stringify(await requestScheduler.schedule(
+          () => provider.classifyClothingItem(uploadedImage.base64, uploadedImage.mimeType, hints),
+          {
+            label: `Classify ${file.name}`,
+            onUpdate: (job) => setClassifyingItems(prev => prev.map(item => item.id === tempId ? { ...item, status: job.status } : item)),
+          }
+        )), { bypass: !isCacheEnabled });
+        const { category, attributes }: ClothingClassification = JSON.parse(cached);
+        const cleanedImage = await cleanUp();
+        const newItem: FilterItem = { id: tempId, name: file.name.split('.').slice(0, -1).join('.') || 'Style Item', image: uploadedImage, cleanedImage: cleanedImage || undefined, attributes };
         handleItemAdd(newItem, category);
+        queueReview(tempId, cleanedImage);
         setClassifyingItems(prev => prev.filter(item => item.id !== tempId));
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : "Classification failed.";
         console.error(`Error processing file ${file.name}:`, err);
-        setClassifyingItems(prev => prev.map(item => item.id === tempId ? { ...item, error: errorMessage } : item));
+        setClassifyingItems(prev => prev.map(item => item.id === tempId ? { ...item, status: 'failed', error: errorMessage } : item));
+      } finally {
+        inFlightUploadsRef.current.delete(tempId);
       }
-      await delay(4500);
+    }));
+    refreshCacheStats();
+  }, [activeWardrobeId, findDuplicate, handleItemAdd, isCacheEnabled, isGarmentCleanupEnabled, refreshCacheStats, replaceItemImage]);
+
+  const handleCatalogueImport = (incoming: BundledWardrobe[], options: ImportOptions): ImportSummary => {
+    const result = applyCatalogueImport({ wardrobes, catalogues }, incoming, options);
+    result.removedItems.forEach(item => revokeItemImageUrls(item));
+    result.wardrobes.filter(wardrobe => !catalogues[wardrobe.id]).forEach(wardrobe => {
+      persistCatalogueChange(() => saveWardrobe(wardrobe));
+    });
+    setWardrobes(result.wardrobes);
+    setCatalogues(Object.fromEntries(Object.entries(result.catalogues).map(([wardrobeId, catalogue]) =>
+      [wardrobeId, { ...EMPTY_CATALOGUE_DATA, ...catalogue }]
+    )));
+    // Imported items may have replaced selected ones, so start the selection and undo history over.
+    setSelectedItems(initialSelected);
+    setUndoStack([]);
+    return result.summary;
+  };
+
+  const handleWardrobeSwitch = (wardrobeId: string) => {
+    if (wardrobeId === activeWardrobeId) return;
+    setActiveWardrobeId(wardrobeId);
+    saveActiveWardrobeIdToStorage(wardrobeId);
+    setSelectedItems(initialSelected);
+    // Undo entries refer to items in the wardrobe being browsed, so they cannot outlive a switch.
+    setUndoStack([]);
+    setError(null);
+  };
+
+  const handleWardrobeCreate = (name: string) => {
+    const wardrobe = createWardrobe(name);
+    setWardrobes(prev => [...prev, wardrobe]);
+    setCatalogues(prev => ({ ...prev, [wardrobe.id]: EMPTY_CATALOGUE_DATA }));
+    persistCatalogueChange(() => saveWardrobe(wardrobe));
+    handleWardrobeSwitch(wardrobe.id);
+  };
+
+  const handleWardrobeRename = (wardrobeId: string, name: string) => {
+    const wardrobe = wardrobes.find(candidate => candidate.id === wardrobeId);
+    if (!wardrobe) return;
+    const renamed = { ...wardrobe, name };
+    setWardrobes(prev => prev.map(candidate => candidate.id === wardrobeId ? renamed : candidate));
+    persistCatalogueChange(() => saveWardrobe(renamed));
+  };
+
+  const handleWardrobeDelete = (wardrobeId: string) => {
+    const remaining = wardrobes.filter(wardrobe => wardrobe.id !== wardrobeId);
+    if (remaining.length === 0) return;
+    Object.values(catalogues[wardrobeId] || {}).flat().forEach((item: FilterItem) => revokeItemImageUrls(item));
+    setWardrobes(remaining);
+    setCatalogues(prev => {
+      const { [wardrobeId]: _deleted, ...rest } = prev;
+      return rest;
+    });
+    persistCatalogueChange(() => deleteWardrobe(wardrobeId));
+    setSavedLooks(prev => prev.filter(look => look.wardrobeId !== wardrobeId));
+    if (wardrobeId === activeWardrobeId) {
+      handleWardrobeSwitch(remaining[0].id);
     }
-  }, [handleItemAdd]);
+  };
+
+  useEffect(() => {
+    saveSavedLooksToStorage(savedLooks);
+  }, [savedLooks]);
+
+  const handleLookSave = async (name: string, thumbnailSource: string | null) => {
+    if (!activeWardrobeId) return;
+    const itemIds = Object.values(selectedItems).flat().map((item: FilterItem) => item.id);
+    let thumbnail: string | null = null;
+    if (thumbnailSource) {
+      try {
+        thumbnail = await createThumbnailDataUrl(thumbnailSource, LOOK_THUMBNAIL_SIZE);
+      } catch (err) {
+        console.error("Could not create a thumbnail for the look:", err);
+      }
+    }
+    const look: SavedLook = { id: `look-${Date.now()}`, name, wardrobeId: activeWardrobeId, itemIds, thumbnail, createdAt: Date.now() };
+    setSavedLooks(prev => [...prev, look]);
+  };
+
+  // Selects whichever of the look's items are still in the catalogue, in their current categories.
+  const handleLookApply = (look: SavedLook) => {
+    const itemIds = new Set(look.itemIds);
+    setSelectedItems({
+      ...initialSelected,
+      ...Object.fromEntries(Object.entries(currentCatalogue).map(([category, items]: [string, FilterItem[]]) => [
+        category,
+        items.filter(item => itemIds.has(item.id)),
+      ])),
+    });
+    setError(null);
+  };
+
+  const handleLookDelete = (look: SavedLook) => {
+    setSavedLooks(prev => prev.filter(candidate => candidate.id !== look.id));
+  };
+
+  const handlePresentationChange = (newPresentation: Presentation) => {
+    setPresentation(newPresentation);
+    savePresentationToStorage(newPresentation);
+  };
 
   const handleImageAdd = (image: UploadedImage) => {
-    setWorkspaceItems(prev => [image, ...prev]);
-    setSelectedImage(image);
+    const photo: UploadedImage = { ...image, lineage: createLineage(null, inputMode === 'camera' ? 'Captured' : 'Uploaded') };
+    setWorkspaceItems(prev => [photo, ...prev]);
+    setSelectedImage(photo);
     setGeneratedImages([]);
-    setGeneratedVideoUrl(null);
+    setGeneratedVideo(null);
     setError(null);
   };
 
+  const handleDownloadImage = async (image: UploadedImage) => {
+    setDownloadError(null);
+    try {
+      await downloadImage(image);
+    } catch (err) {
+      console.error("Could not download the image:", err);
+      setDownloadError(`${image.name} could not be downloaded. Please try again.`);
+    }
+  };
+
   const handleSelectImage = (image: UploadedImage) => {
     setSelectedImage(image);
   };
 
+  const handleHistoryUndo = () => {
+    if (!selectedImage?.lineage) return;
+    const parent = getParent(workspaceItems, selectedImage);
+    if (!parent?.lineage) return;
+    redoTargetsRef.current.set(parent.lineage.id, selectedImage.lineage.id);
+    setSelectedImage(parent);
+  };
+
+  const handleHistoryRedo = () => {
+    if (!selectedImage?.lineage) return;
+    const children = getChildren(workspaceItems, selectedImage);
+    const remembered = redoTargetsRef.current.get(selectedImage.lineage.id);
+    const next = children.find((child: UploadedImage) => child.lineage?.id === remembered) || children[children.length - 1];
+    if (next) setSelectedImage(next);
+  };
+
+  // Branching is just editing an earlier image: the next edit records it as the parent.
+  const handleHistoryBranch = (image: UploadedImage) => {
+    setSelectedImage(image);
+    handleModeChange('edit');
+  };
+
+  // Clearing the workspace removes every photo and result, here and in browser storage, but keeps the styles.
   const handleClearWorkspace = () => {
       if (window.confirm("Are you sure you want to clear the workspace? This will remove all captured and generated images.")) {
-          workspaceItems.forEach(img => { if (img.url.startsWith('blob:')) URL.revokeObjectURL(img.url); });
+          workspaceItems.forEach(revokeImageUrls);
+          if (generatedVideo) URL.revokeObjectURL(generatedVideo.url);
+          // Batch sources are workspace photos, so their URLs were just revoked.
+          batchSourcesRef.current.clear();
           setWorkspaceItems([]);
           setSelectedImage(null);
+          setGeneratedImages([]);
+          setGeneratedVideo(null);
+          setElapsedTime(null);
       }
   };
 
   const handleReset = () => {
-    if (window.confirm("Are you sure you want to reset the session? This will remove all workspace photos and clear your uploaded styles from browser storage.")) {
-      workspaceItems.forEach(img => { if (img.url.startsWith('blob:')) URL.revokeObjectURL(img.url); });
+    const savedLooksWarning = savedLooks.length > 0 ? ` Your ${savedLooks.length} saved look${savedLooks.length === 1 ? '' : 's'} will be deleted too.` : '';
+    if (window.confirm(`Are you sure you want to reset the session? This will remove all workspace photos and clear your uploaded styles from browser storage.${savedLooksWarning}`)) {
+      workspaceItems.forEach(revokeImageUrls);
+      if (generatedVideo) URL.revokeObjectURL(generatedVideo.url);
+      jobManager.cancelAll();
+      jobManager.clearFinished();
+      showBatch(null);
+      jobErrorsRef.current.clear();
+      batchSourcesRef.current.clear();
+      if (unseenVideoRef.current) URL.revokeObjectURL(unseenVideoRef.current.url);
+      unseenVideoRef.current = null;
       setWorkspaceItems([]);
       setSelectedImage(null);
       setGeneratedImages([]);
-      setGeneratedVideoUrl(null);
+      setGeneratedVideo(null);
       setError(null);
       setElapsedTime(null);
       setClassifyingItems([]);
+      setCleanupReviews([]);
+      duplicateResolversRef.current.forEach(resolve => resolve('skip'));
+      duplicateResolversRef.current.clear();
       setSelectedItems(initialSelected);
-      clearAllCataloguesFromStorage();
-      setFemaleCatalogue(FEMALE_CATALOGUE_DATA);
-      setMaleCatalogue(MALE_CATALOGUE_DATA);
-    }
-  };
-
-  const handleGenderChange = (newGender: 'female' | 'male') => {
-    if (gender !== newGender) {
-      setGender(newGender);
-      setSelectedItems(initialSelected);
-      setError(null);
+      setUndoStack([]);
+      setSavedLooks([]);
+      clearSession().catch(err => console.error("Could not clear the session from browser storage:", err));
+      Object.values(catalogues).flatMap(catalogue => Object.values(catalogue).flat()).forEach((item: FilterItem) => revokeItemImageUrls(item));
+      // Every wardrobe goes; a fresh default one takes their place.
+      const wardrobe = createWardrobe(DEFAULT_WARDROBE_NAME);
+      clearAllCatalogues().catch(err => console.error("Could not clear catalogues from browser storage:", err));
+      persistCatalogueChange(() => saveWardrobe(wardrobe));
+      setWardrobes([wardrobe]);
+      setCatalogues({ [wardrobe.id]: EMPTY_CATALOGUE_DATA });
+      setActiveWardrobeId(wardrobe.id);
+      saveActiveWardrobeIdToStorage(wardrobe.id);
     }
   };
 
@@ -164,108 +928,225 @@ const App: React.FC = () => {
     if (mode !== newMode) {
       setMode(newMode);
       setGeneratedImages([]);
-      setGeneratedVideoUrl(null);
+      setGeneratedVideo(null);
       setError(null);
       setElapsedTime(null);
+      // Pick up a batch of the new mode that is still running; anything else stays in the queue.
+      showBatch(generationJobs.find((job: GenerationJob) => job.kind === newMode && isJobActive(job))?.batchId || null);
+      if (newMode === 'video' && unseenVideoRef.current) {
+        setGeneratedVideo(unseenVideoRef.current);
+        unseenVideoRef.current = null;
+      }
     }
   };
 
   const handleGenerate = async () => {
     if (!selectedImage) {
-      setError("Please select a photo from the workspace first.");
+      setError(new InvalidRequestError("Please select a photo from the workspace first."));
       return;
     }
 
-    setIsLoading(true);
+    // Jobs keep the photo they were started with, even if the selection changes while they wait.
+    const sourceImage = selectedImage;
     setGeneratedImages([]);
-    setGeneratedVideoUrl(null);
+    setGeneratedVideo(null);
     setError(null);
     setElapsedTime(null);
-    const startTime = performance.now();
+    const startBatch = (batchId: string) => {
+      batchSourcesRef.current.set(batchId, sourceImage);
+      showBatch(batchId);
+    };
 
     try {
+      const provider = await getGenerationProvider();
+      const bypass = !isCacheEnabled;
+      // Recorded in each result's provenance; hashed once for the whole batch.
+      const sourceHash = sha256Hex(sourceImage.base64);
       if (mode === 'try-on') {
-        const outfitsToTry = generateOutfitCombinations(selectedItems);
-        if (outfitsToTry.length === 0) throw new Error("Please select at least one clothing item.");
-        if (outfitsToTry.flat().some(item => !item.image.base64)) throw new Error("A selected style is a placeholder. Please upload real clothing items.");
-        
-        const results: string[] = [];
-        for (const outfit of outfitsToTry) {
-          const result = await virtualTryOn(selectedImage.base64, selectedImage.mimeType, outfit, gender);
-          if (result) {
-            results.push(result);
-            setGeneratedImages([...results]);
-          }
-        }
+        const outfitsToTry = plannedCombinations;
+        if (candidateCombinations.length === 0) throw new InvalidRequestError("Please select at least one clothing item.");
+        if (outfitsToTry.length === 0) throw new InvalidRequestError("Every combination is unticked. Tick at least one look in the batch plan.");
+        if (outfitsToTry.flat().some(item => !item.image.base64)) throw new InvalidRequestError("A selected style is a placeholder. Please upload real clothing items.");
 
-        if (results.length > 0) {
-            const newItems: UploadedImage[] = [];
-            for (const [index, result] of results.entries()) {
-                const blob = base64ToBlob(result, 'image/png');
-                const url = URL.createObjectURL(blob);
-                const newItem: UploadedImage = {
-                    base64: result,
-                    mimeType: 'image/png',
-                    url: url,
-                    name: `try-on-${index + 1}-${selectedImage.name}`,
-                };
-                newItems.push(newItem);
-            }
-            setWorkspaceItems(prev => [...newItems.reverse(), ...prev]);
-            if (newItems.length > 0) {
-                setSelectedImage(newItems[0]);
-            }
-        }
+        // One job per look; a failed look does not stop the rest of the batch and can be retried on its own.
+        const specs = outfitsToTry.map((outfit, index): JobSpec<GeneratedImage> => ({
+          label: `Try-on look ${index + 1}`,
+          run: async (signal) => {
+            const startedAt = Date.now();
+            const items = outfit.map(item => ({ id: item.id, name: item.name, category: item.category, wornOver: item.wornOver }));
+            // The model gets each garment's cleaned copy where there is one.
+            const modelOutfit = outfit.map(item => ({ ...item, image: getTryOnImage(item) }));
+            // Everything that shapes the prompt belongs in the key, attributes included. Schema 2
+            // entries store the provenance alongside the image.
+            const cacheKey = await computeCacheKey('try-on', {
+              schema: 2,
+              provider: provider.name,
+              model: provider.models.image,
+              promptTemplateVersion: PROMPT_TEMPLATE_VERSIONS.tryOn,
+              presentation,
+              items: outfit.map(item => ({ name: item.name, category: item.category, wornOver: item.wornOver, attributes: item.attributes })),
+            }, [sourceImage.base64, ...modelOutfit.map(item => item.image.base64)]);
+            let isFresh = false;
+            const stored = await withResultCache('try-on', cacheKey, async () => {
+              isFresh = true;
+              const base64 = await requestScheduler.schedule(() => {
+                signal.throwIfAborted();
+                return provider.virtualTryOn(sourceImage.base64, sourceImage.mimeType, modelOutfit, presentation);
+              }, { label: `Try-on look ${index + 1}` });
+              if (!base64) return null;
+              const provenance: Provenance = {
+                kind: 'try-on',
+                provider: provider.name,
+                model: provider.models.image,
+                promptTemplateVersion: PROMPT_TEMPLATE_VERSIONS.tryOn,
+                presentation,
+                items,
+                source: { name: sourceImage.name, sha256: await sourceHash },
+                createdAt: Date.now(),
+                durationMs: Date.now() - startedAt,
+              };
+              return JSON.stringify({ base64, provenance });
+            }, { bypass });
+            if (!stored) throw new NoImageReturnedError();
+            return readCachedImage(stored, isFresh);
+          },
+          onSuccess: (result, job) => routeImageResult(job, result, `try-on-${index + 1}-${sourceImage.name}`, sourceImage, `Try-on: ${outfit.map(item => item.name).join(' + ')}`),
+          onFailure: handleJobFailure,
+        }));
+        startBatch(jobManager.submit('try-on', specs));
 
       } else if (mode === 'edit') {
-        if (!editPrompt.trim()) throw new Error("Please enter an edit description.");
-        const result = await editImage(selectedImage.base64, selectedImage.mimeType, editPrompt);
-        if (result) {
-          setGeneratedImages([result]);
-          
-          const blob = base64ToBlob(result, 'image/png');
-          const url = URL.createObjectURL(blob);
-          const newItem: UploadedImage = {
-              base64: result,
-              mimeType: 'image/png',
-              url: url,
-              name: `edit-${selectedImage.name.substring(0, 20)}`,
-          };
-          setWorkspaceItems(prev => [newItem, ...prev]);
-          setSelectedImage(newItem);
-        }
+        if (!editPrompt.trim()) throw new InvalidRequestError("Please enter an edit description.");
+        const prompt = editPrompt;
+        startBatch(jobManager.submit('edit', [{
+          label: 'Edit image',
+          run: async (signal: AbortSignal): Promise<GeneratedImage> => {
+            const startedAt = Date.now();
+            // Schema 2 entries store the provenance alongside the image.
+            const cacheKey = await computeCacheKey('edit', {
+              schema: 2,
+              provider: provider.name,
+              model: provider.models.image,
+              promptTemplateVersion: PROMPT_TEMPLATE_VERSIONS.edit,
+              prompt,
+            }, [sourceImage.base64]);
+            let isFresh = false;
+            const stored = await withResultCache('edit', cacheKey, async () => {
+              isFresh = true;
+              const base64 = await requestScheduler.schedule(() => {
+                signal.throwIfAborted();
+                return provider.editImage(sourceImage.base64, sourceImage.mimeType, prompt);
+              }, { label: 'Edit image' });
+              if (!base64) return null;
+              const provenance: Provenance = {
+                kind: 'edit',
+                provider: provider.name,
+                model: provider.models.image,
+                promptTemplateVersion: PROMPT_TEMPLATE_VERSIONS.edit,
+                prompt,
+                source: { name: sourceImage.name, sha256: await sourceHash },
+                createdAt: Date.now(),
+                durationMs: Date.now() - startedAt,
+              };
+              return JSON.stringify({ base64, provenance });
+            }, { bypass });
+            if (!stored) throw new NoImageReturnedError();
+            return readCachedImage(stored, isFresh);
+          },
+          onSuccess: (result: GeneratedImage, job: GenerationJob) => routeImageResult(job, result, `edit-${sourceImage.name.substring(0, 20)}`, sourceImage, `Edit: ${prompt}`),
+          onFailure: handleJobFailure,
+        }]));
 
       } else if (mode === 'video') {
-        if (!videoPrompt.trim()) throw new Error("Please enter a video description.");
-        const hasKey = await window.aistudio.hasSelectedApiKey();
+        if (!videoPrompt.trim()) throw new InvalidRequestError("Please enter a video description.");
+        // Only one video job is persisted for resuming, so videos run one at a time.
+        if (generationJobs.some((job: GenerationJob) => job.kind === 'video' && isJobActive(job))) {
+          throw new InvalidRequestError("A video is already being generated. Wait for it to finish, or cancel it in the generation queue.");
+        }
+        const hasKey = !provider.requiresApiKeySelection || await window.aistudio.hasSelectedApiKey();
         if (!hasKey) {
             await window.aistudio.openSelectKey();
             // Assume user selected a key. We'll verify by the API call succeeding or failing.
             setIsApiKeySelected(true); // Optimistically set to true
-            throw new Error("API Key selected. Please click 'Generate Video' again to proceed.");
-        }
-        try {
-            const videoUrl = await generateVideo(selectedImage.base64, selectedImage.mimeType, videoPrompt, videoAspectRatio, '720p');
-            setGeneratedVideoUrl(videoUrl);
-        } catch(videoError) {
-            if (videoError instanceof Error && videoError.message.includes("API Key not found")) {
-                setIsApiKeySelected(false);
-            }
-            throw videoError;
+            throw new InvalidRequestError("API Key selected. Please click 'Generate Video' again to proceed.");
         }
+        const prompt = videoPrompt;
+        const aspectRatio = videoAspectRatio;
+        const maxWaitMs = videoMaxWaitMs;
+        startBatch(jobManager.submit('video', [{
+          label: 'Video',
+          run: async (signal: AbortSignal, releaseSlot: () => void) => {
+            // Only starting the operation goes through the scheduler; polling is cheap and unthrottled,
+            // so it gives up the job's slot for the minutes it takes.
+            const operationName = await requestScheduler.schedule(() => {
+              signal.throwIfAborted();
+              return provider.startVideo(sourceImage.base64, sourceImage.mimeType, prompt, aspectRatio, '720p');
+            }, { label: 'Start video' });
+            releaseSlot();
+            const job: VideoJob = {
+              operationName,
+              provider: provider.name,
+              startedAt: Date.now(),
+              maxWaitMs,
+              prompt,
+              sourceImageName: sourceImage.name,
+              // Dated and timed once the video arrives.
+              provenance: {
+                kind: 'video',
+                provider: provider.name,
+                model: provider.models.video,
+                promptTemplateVersion: PROMPT_TEMPLATE_VERSIONS.video,
+                prompt,
+                source: { name: sourceImage.name, sha256: await sourceHash },
+                createdAt: 0,
+                durationMs: 0,
+              },
+            };
+            return followVideoJob(provider, job, signal);
+          },
+          onSuccess: routeVideoResult,
+          onFailure: handleJobFailure,
+        }]));
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
-    } finally {
-      setIsLoading(false);
-      const endTime = performance.now();
-      setElapsedTime((endTime - startTime) / 1000);
+      setError(toServiceError(err));
     }
   };
 
-  const currentCatalogue = gender === 'female' ? femaleCatalogue : maleCatalogue;
+  const handleSelectApiKey = async () => {
+    await window.aistudio.openSelectKey();
+    setIsApiKeySelected(true);
+    setError(null);
+  };
+
+  const resultSource = displayedBatchId ? batchSourcesRef.current.get(displayedBatchId) : undefined;
+  const findCatalogueItem = (itemId: string): FilterItem | undefined =>
+    Object.values(catalogues).flatMap((catalogue: CatalogueData) => Object.values(catalogue).flat()).find((item: FilterItem) => item.id === itemId);
+  // Every generated image can go in a lookbook, with the photo it came from and the garments it wears.
+  const lookbookCandidates: Omit<LookbookLook, 'caption'>[] = workspaceItems
+    .filter((item: UploadedImage) => item.provenance)
+    .map((item: UploadedImage) => ({
+      image: item,
+      source: getParent(workspaceItems, item),
+      garments: (item.provenance?.items || []).map(garment => ({ name: garment.name, category: garment.category, image: findCatalogueItem(garment.id)?.image })),
+    }));
+  // Reviews of items deleted since, or in another wardrobe, wait out of sight.
+  const visibleCleanupReviews = cleanupReviews.filter((review: CleanupReview) =>
+    review.wardrobeId === activeWardrobeId && Object.values(currentCatalogue).flat().some((item: FilterItem) => item.id === review.itemId));
   const itemsToTryOn = Object.values(selectedItems).flat();
-  const isGenerateDisabled = isLoading || !selectedImage || (mode === 'try-on' && itemsToTryOn.length === 0);
+  const selectedLineageTree = selectedImage?.lineage ? buildLineageTree(workspaceItems, selectedImage) : null;
+  const candidateCombinations = planCombinations(selectedItems, planStrategy);
+  const plannedCombinations = selectCombinations(candidateCombinations, excludedCombinationKeys, maxCombinations);
+  const batchEstimate = estimateTryOnBatch(plannedCombinations.length, requestScheduler.getOptions());
+  const isGenerateDisabled = isLoading || !selectedImage || (mode === 'try-on' && plannedCombinations.length === 0);
+
+  const handleToggleCombination = (key: string) => {
+    setExcludedCombinationKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
 
   const getButtonContent = () => {
     if (isLoading) {
@@ -274,7 +1155,7 @@ const App: React.FC = () => {
     }
     if (mode === 'video') return <><VideoIcon className="w-7 h-7 mr-3" />Generate Video</>;
     if (mode === 'edit') return <><EditIcon className="w-7 h-7 mr-3" />Apply Edit</>;
-    return <><TryOnIcon className="w-7 h-7 mr-3" />Try It On</>;
+    return <><TryOnIcon className="w-7 h-7 mr-3" />{plannedCombinations.length > 1 ? `Try On ${plannedCombinations.length} Looks` : 'Try It On'}</>;
   };
 
   return (
@@ -284,6 +1165,12 @@ const App: React.FC = () => {
         <h1 className="text-3xl font-bold text-stone-800 ml-3">Creative Studio</h1>
       </header>
       <main className="p-4 md:p-8 max-w-screen-2xl mx-auto">
+        {downloadError && (
+          <div className="fixed bottom-4 right-4 z-50 max-w-sm bg-red-50 border-l-4 border-red-400 p-3 rounded-md shadow-lg flex items-start gap-3" role="alert">
+            <p className="text-sm text-red-700">{downloadError}</p>
+            <button onClick={() => setDownloadError(null)} className="text-xs font-semibold text-red-800 hover:text-red-900 underline">Dismiss</button>
+          </div>
+        )}
         <div className="mb-8 bg-white p-2 rounded-lg shadow-md">
             <h2 className="text-xl font-bold text-stone-700 text-center mb-2">Creative Mode</h2>
             <div className="flex justify-center bg-gray-100 rounded-lg p-1">
@@ -303,24 +1190,53 @@ const App: React.FC = () => {
               </h2>
               {mode === 'try-on' && (
                 <>
-                  <div className="flex justify-center mb-4 bg-gray-100 rounded-lg p-1">
-                    <button onClick={() => handleGenderChange('female')} className={`w-1/2 py-2 px-4 rounded-md text-sm font-semibold transition-colors ${gender === 'female' ? 'bg-pink-600 text-white shadow' : 'text-gray-600'}`}>Female Styles</button>
-                    <button onClick={() => handleGenderChange('male')} className={`w-1/2 py-2 px-4 rounded-md text-sm font-semibold transition-colors ${gender === 'male' ? 'bg-pink-600 text-white shadow' : 'text-gray-600'}`}>Male Styles</button>
+                  <div className="mb-4">
+                    <p className="text-sm font-medium text-gray-700 mb-1">Person in the photo</p>
+                    <div className="flex justify-center bg-gray-100 rounded-lg p-1">
+                      {PRESENTATION_OPTIONS.map(option => (
+                        <button key={option.value} onClick={() => handlePresentationChange(option.value)} className={`w-1/3 py-2 px-4 rounded-md text-sm font-semibold transition-colors ${presentation === option.value ? 'bg-pink-600 text-white shadow' : 'text-gray-600'}`}>{option.label}</button>
+                      ))}
+                    </div>
                   </div>
+                  <CatalogueTransfer wardrobes={wardrobes.map(wardrobe => ({ wardrobe, catalogue: catalogues[wardrobe.id] || EMPTY_CATALOGUE_DATA }))} onImport={handleCatalogueImport} />
+                  {activeWardrobeId && (
+                    <WardrobeSwitcher
+                      wardrobes={wardrobes}
+                      activeWardrobeId={activeWardrobeId}
+                      itemCounts={Object.fromEntries(wardrobes.map(wardrobe => [wardrobe.id, Object.values(catalogues[wardrobe.id] || {}).flat().length]))}
+                      onSwitch={handleWardrobeSwitch}
+                      onCreate={handleWardrobeCreate}
+                      onRename={handleWardrobeRename}
+                      onDelete={handleWardrobeDelete}
+                    />
+                  )}
                   {itemsToTryOn.length > 0 && (
                     <div className="bg-pink-50 border-l-4 border-pink-400 p-4 rounded-md mb-4 shadow-sm animate-fade-in">
                       <h3 className="text-lg font-bold text-stone-700 mb-3">Your Selections</h3>
                       <div className="flex items-center gap-3 flex-wrap">
                         {itemsToTryOn.map((item: FilterItem) => (
                           <div key={item.id} className="relative w-16 h-20 rounded-md overflow-hidden border-2 border-pink-300 bg-white">
-                            <img src={item.image.url} alt={item.name} className="w-full h-full object-cover" />
+                            <img src={item.image.thumbnailUrl || item.image.url} alt={item.name} className="w-full h-full object-cover" />
                             <div className="absolute bottom-0 left-0 right-0 p-0.5 bg-black bg-opacity-50"><p className="text-white text-[10px] text-center truncate">{item.name}</p></div>
                           </div>
                         ))}
                       </div>
                     </div>
                   )}
-                  <Catalogue catalogue={currentCatalogue} selectedItems={selectedItems} onSelectedItemsChange={setSelectedItems} onStyleUpload={handleStyleUpload} classifyingItems={classifyingItems} />
+                  <SavedLooks
+                    looks={savedLooks.filter((look: SavedLook) => look.wardrobeId === activeWardrobeId)}
+                    catalogue={currentCatalogue}
+                    selectionCount={itemsToTryOn.length}
+                    resultImages={mode === 'try-on' && !isLoading ? generatedImages.map((image: UploadedImage) => image.url) : []}
+                    onSave={handleLookSave}
+                    onApply={handleLookApply}
+                    onDelete={handleLookDelete}
+                  />
+                  {activeWardrobeId ? (
+                    <Catalogue catalogue={currentCatalogue} selectedItems={selectedItems} onSelectedItemsChange={setSelectedItems} onStyleUpload={handleStyleUpload} onResolveDuplicate={handleResolveDuplicate} onItemUpdate={handleItemUpdate} onItemDelete={handleItemDelete} undoLabel={undoStack[undoStack.length - 1]?.label || null} onUndo={handleUndo} classifyingItems={classifyingItems} cleanupReviews={visibleCleanupReviews} onResolveCleanup={handleResolveCleanup} isCleanupEnabled={isGarmentCleanupEnabled} onCleanupToggle={handleGarmentCleanupToggle} />
+                  ) : (
+                    <p className="text-center py-10 text-stone-500">Loading your wardrobes...</p>
+                  )}
                 </>
               )}
               {mode === 'edit' && (
@@ -346,6 +1262,14 @@ const App: React.FC = () => {
                             <option value="16:9">16:9 (Landscape)</option>
                         </select>
                     </div>
+                    <div>
+                        <label htmlFor="max-wait" className="block text-sm font-medium text-gray-700">Maximum Wait</label>
+                        <select id="max-wait" value={videoMaxWaitMs} onChange={(e) => setVideoMaxWaitMs(Number(e.target.value))} className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-pink-500 focus:border-pink-500 sm:text-sm rounded-md">
+                            {VIDEO_MAX_WAIT_OPTIONS_MS.map(ms => (
+                              <option key={ms} value={ms}>{ms / 60000} minutes</option>
+                            ))}
+                        </select>
+                    </div>
                 </div>
               )}
             </div>
@@ -366,11 +1290,18 @@ const App: React.FC = () => {
             <div className="bg-white p-6 rounded-lg shadow-md flex-grow">
                <div className="flex justify-between items-center mb-4">
                   <h2 className="text-2xl font-bold text-stone-700">3. Workspace</h2>
-                  {workspaceItems.length > 0 &&
-                      <button onClick={handleClearWorkspace} className="text-sm text-red-600 hover:text-red-800 font-semibold flex items-center gap-1 transition-colors">
-                          <TrashIcon /> Clear Workspace
-                      </button>
-                  }
+                  <div className="flex items-center gap-4">
+                    {lookbookCandidates.length > 0 &&
+                        <button onClick={() => setIsLookbookOpen(true)} className="text-sm text-pink-700 hover:text-pink-900 font-semibold flex items-center gap-1 transition-colors">
+                            <DownloadIcon className="w-4 h-4" /> Export Lookbook
+                        </button>
+                    }
+                    {workspaceItems.length > 0 &&
+                        <button onClick={handleClearWorkspace} className="text-sm text-red-600 hover:text-red-800 font-semibold flex items-center gap-1 transition-colors">
+                            <TrashIcon /> Clear Workspace
+                        </button>
+                    }
+                  </div>
               </div>
               {workspaceItems.length === 0 ? (
                 <div className="bg-stone-100 rounded-lg p-6 text-center text-stone-500 h-full flex flex-col justify-center">
@@ -381,35 +1312,101 @@ const App: React.FC = () => {
                 <div className="grid grid-cols-3 gap-2 max-h-[45vh] overflow-y-auto p-2 bg-stone-100 rounded-lg">
                   {workspaceItems.map((image) => (
                     <div key={image.url} onClick={() => handleSelectImage(image)} className={`relative group aspect-square cursor-pointer rounded-md overflow-hidden border-4 transition-all duration-200 ${selectedImage?.url === image.url ? 'border-pink-500 scale-105 shadow-lg' : 'border-transparent hover:border-pink-300'}`} role="button" aria-pressed={selectedImage?.url === image.url} aria-label={`Select image ${image.name}`}>
-                      <img src={image.url} alt={image.name} className="w-full h-full object-cover" />
+                      <img src={image.thumbnailUrl || image.url} alt={image.name} className="w-full h-full object-cover" />
                       {selectedImage?.url === image.url && (<div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center"><CheckCircleIcon className="w-8 h-8 text-white opacity-90" /></div>)}
-                       <a
-                          href={image.url}
-                          download={image.name}
-                          onClick={(e) => e.stopPropagation()}
+                       <button
+                          onClick={(e) => { e.stopPropagation(); handleDownloadImage(image); }}
                           className="absolute top-1 right-1 p-1.5 bg-black bg-opacity-50 rounded-full text-white hover:bg-opacity-75 transition-colors opacity-0 group-hover:opacity-100"
                           aria-label={`Download image ${image.name}`}
                         >
                           <DownloadIcon className="w-4 h-4" />
-                        </a>
+                        </button>
+                        {image.provenance && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); setDetailsImage(image); }}
+                            className="absolute top-1 left-1 w-7 h-7 bg-black bg-opacity-50 rounded-full text-white text-xs font-bold italic hover:bg-opacity-75 transition-colors opacity-0 group-hover:opacity-100"
+                            aria-label={`Show details of ${image.name}`}
+                          >
+                            i
+                          </button>
+                        )}
                     </div>
                   ))}
                 </div>
               )}
+              {selectedImage && selectedLineageTree && selectedLineageTree.children.length > 0 && (
+                <EditHistory
+                  tree={selectedLineageTree}
+                  selectedImage={selectedImage}
+                  path={getAncestry(workspaceItems, selectedImage)}
+                  canUndo={!!getParent(workspaceItems, selectedImage)}
+                  canRedo={getChildren(workspaceItems, selectedImage).length > 0}
+                  onSelect={handleSelectImage}
+                  onBranch={handleHistoryBranch}
+                  onUndo={handleHistoryUndo}
+                  onRedo={handleHistoryRedo}
+                />
+              )}
             </div>
+            {mode === 'try-on' && (
+              <CombinationPlanner
+                combinations={candidateCombinations}
+                excludedKeys={excludedCombinationKeys}
+                maxCombinations={maxCombinations}
+                strategy={planStrategy}
+                plannedCount={plannedCombinations.length}
+                estimate={batchEstimate}
+                onToggle={handleToggleCombination}
+                onMaxChange={setMaxCombinations}
+                onStrategyChange={setPlanStrategy}
+              />
+            )}
             <button onClick={handleGenerate} disabled={isGenerateDisabled} className="w-full flex items-center justify-center py-4 px-6 bg-pink-600 text-white font-bold text-xl rounded-lg shadow-md hover:bg-pink-700 transition-all duration-300 transform hover:scale-105 disabled:bg-gray-400 disabled:cursor-not-allowed disabled:scale-100">
                 {getButtonContent()}
             </button>
+            <CacheControls isEnabled={isCacheEnabled} stats={cacheStats} onToggle={handleCacheToggle} onClear={handleClearCache} />
+            <StorageUsage estimate={storageEstimate} saveError={catalogueStorageError || sessionStorageError} />
             <button onClick={handleReset} className="w-full flex items-center justify-center py-2 px-4 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
               <TrashIcon /><span className="ml-2">Reset Session & Styles</span>
             </button>
+            <JobQueue
+              jobs={generationJobs}
+              isPaused={isQueuePaused}
+              onPause={jobManager.pause}
+              onResume={jobManager.resume}
+              onCancel={jobManager.cancel}
+              onRetry={jobManager.retry}
+              onCancelAll={jobManager.cancelAll}
+              onClearFinished={jobManager.clearFinished}
+            />
+            <RequestQueue jobs={requestJobs} onClearFailed={requestScheduler.clearFinished} />
           </div>
         </div>
         <div className="mt-8 bg-white p-6 rounded-lg shadow-md">
           <h2 className="text-2xl font-bold text-stone-700 mb-4">4. See Your Creation</h2>
-          <ResultDisplay isLoading={isLoading} error={error} generatedImages={generatedImages} generatedVideoUrl={generatedVideoUrl} elapsedTime={elapsedTime} mode={mode} />
+          <ResultDisplay
+            isLoading={isLoading}
+            error={error}
+            generatedImages={generatedImages}
+            sourceImageUrl={resultSource?.url || null}
+            onShowDetails={setDetailsImage}
+            onDownload={handleDownloadImage}
+            generatedVideo={generatedVideo}
+            elapsedTime={elapsedTime}
+            mode={mode}
+            videoJob={videoJob}
+            onCancelVideo={handleCancelVideo}
+            onRetry={handleGenerate}
+            onSelectApiKey={typeof window.aistudio !== 'undefined' ? handleSelectApiKey : undefined}
+          />
         </div>
       </main>
+      {detailsImage?.provenance && (
+        <ProvenanceDrawer image={{ ...detailsImage, provenance: detailsImage.provenance }} findItem={findCatalogueItem} onDownload={handleDownloadImage} onClose={() => setDetailsImage(null)} />
+      )}
+      {isLookbookOpen && (
+        <LookbookExport candidates={lookbookCandidates} onClose={() => setIsLookbookOpen(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,37 @@
+import React from 'react';
+import { CacheStats } from '../services/resultCache';
+
+interface CacheControlsProps {
+  isEnabled: boolean;
+  stats: CacheStats | null;
+  onToggle: (enabled: boolean) => void;
+  onClear: () => void;
+}
+
+// Lets the user bypass or empty the local cache of try-on, edit and classification results.
+const CacheControls: React.FC<CacheControlsProps> = ({ isEnabled, stats, onToggle, onClear }) => {
+  const sizeMb = stats ? (stats.bytes / (1024 * 1024)).toFixed(1) : '0.0';
+
+  return (
+    <div className="flex items-center justify-between text-sm text-stone-600 px-1">
+      <label className="flex items-center gap-2 cursor-pointer" title="When off, every request goes to the AI service; fresh results still refresh the cache.">
+        <input
+          type="checkbox"
+          checked={isEnabled}
+          onChange={(e) => onToggle(e.target.checked)}
+          className="h-4 w-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+        />
+        Reuse cached results
+      </label>
+      <button
+        onClick={onClear}
+        disabled={!stats || stats.entries === 0}
+        className="text-xs text-stone-500 hover:text-red-700 font-semibold transition-colors disabled:text-gray-300 disabled:cursor-not-allowed"
+      >
+        Clear cache ({stats?.entries || 0} items, {sizeMb} MB)
+      </button>
+    </div>
+  );
+};
+
+export default CacheControls;
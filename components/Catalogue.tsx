@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
-import { FilterItem, ClassifyingItem } from '../types';
+import { FilterItem, ClassifyingItem, CleanupReview, DuplicateResolution } from '../types';
 import ItemGrid from './SareeSelector'; // Renamed internally, but file path is the same
 import StyleUploader from './SareeUploader'; // Renamed internally, but file path is the same
+import ItemEditor from './ItemEditor';
+import { CATEGORY_TAXONOMY, TOP_LEVEL_CATEGORIES, getCategory, getCategoryPath, getSubcategories } from '../taxonomy';
+import { toggleSelection } from '../utils/outfitRules';
 
 type CatalogueData = Record<string, FilterItem[]>;
 type SelectedItems = Record<string, FilterItem[]>;
@@ -11,81 +14,135 @@ interface CatalogueProps {
   selectedItems: SelectedItems;
   onSelectedItemsChange: React.Dispatch<React.SetStateAction<SelectedItems>>;
   onStyleUpload: (files: File[]) => void;
+  onResolveDuplicate: (uploadId: string, resolution: DuplicateResolution) => void;
+  onItemUpdate: (item: FilterItem, category: string, targetCategory: string) => void;
+  onItemDelete: (item: FilterItem, category: string) => void;
+  undoLabel: string | null;
+  onUndo: () => void;
   classifyingItems: ClassifyingItem[];
+  cleanupReviews: CleanupReview[];
+  onResolveCleanup: (review: CleanupReview, keepCleaned: boolean) => void;
+  isCleanupEnabled: boolean;
+  onCleanupToggle: (enabled: boolean) => void;
 }
 
-const CATEGORIES = [
-  { id: 'outfits', name: 'Outfits' },
-  { id: 'tops', name: 'Tops' },
-  { id: 'bottoms', name: 'Bottoms' },
-  { id: 'footwear', name: 'Footwear' },
-  { id: 'headwear', name: 'Headwear' },
-  { id: 'accessories', name: 'Accessories' },
-];
+// Every category an item can be moved to, sub-categories named with their parent.
+const EDITOR_CATEGORIES = CATEGORY_TAXONOMY.map(category => ({ id: category.id, name: getCategoryPath(category.id) }));
 
-const Catalogue: React.FC<CatalogueProps> = ({ catalogue, selectedItems, onSelectedItemsChange, onStyleUpload, classifyingItems }) => {
-  const [activeCategory, setActiveCategory] = useState(CATEGORIES[0].id);
+// A tab shows its own category followed by its sub-categories.
+const tabCategoryIds = (tabId: string) => [tabId, ...getSubcategories(tabId).map(category => category.id)];
 
-  const handleSelectItem = (item: FilterItem, category: string) => {
-    onSelectedItemsChange(prev => {
-        const newSelected = { ...prev };
-        Object.keys(newSelected).forEach(key => {
-            newSelected[key] = [...(newSelected[key] || [])];
-        });
+/**
+ * Matches every whitespace-separated term against the item's name and attributes,
+ * so stylists can search e.g. "red linen summer".
+ */
+const matchesSearch = (item: FilterItem, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const { attributes } = item;
+  const haystack = [
+    item.name,
+    ...(attributes ? [
+      ...attributes.dominantColors,
+      attributes.pattern,
+      attributes.fabric,
+      attributes.sleeveStyle,
+      attributes.neckline,
+      attributes.length,
+      attributes.formality,
+      ...attributes.seasons,
+      attributes.description,
+    ] : []),
+  ].join(' ').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+const Catalogue: React.FC<CatalogueProps> = ({ catalogue, selectedItems, onSelectedItemsChange, onStyleUpload, onResolveDuplicate, onItemUpdate, onItemDelete, undoLabel, onUndo, classifyingItems, cleanupReviews, onResolveCleanup, isCleanupEnabled, onCleanupToggle }) => {
+  const [activeTab, setActiveTab] = useState(TOP_LEVEL_CATEGORIES[0].id);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [editing, setEditing] = useState<{ item: FilterItem; category: string } | null>(null);
 
-        const categoryItems = newSelected[category];
-        const isSelected = categoryItems.some(i => i.id === item.id);
+  const visibleItems = (category: string) => (catalogue[category] || []).filter(item => matchesSearch(item, searchQuery));
+  const countVisible = (tabId: string) => tabCategoryIds(tabId).reduce((total, id) => total + visibleItems(id).length, 0);
+  const activeSections = tabCategoryIds(activeTab).map(id => ({ id, items: visibleItems(id) }));
+  const hasAnyInTab = tabCategoryIds(activeTab).some(id => (catalogue[id] || []).length > 0);
 
-        if (isSelected) {
-            newSelected[category] = categoryItems.filter(i => i.id !== item.id);
-        } else {
-            newSelected[category].push(item);
-            // If selecting an 'outfit', deselect all tops and bottoms.
-            if (category === 'outfits') {
-                newSelected.tops = [];
-                newSelected.bottoms = [];
-            } 
-            // If selecting a top or bottom, deselect all 'outfits'.
-            else if (category === 'tops' || category === 'bottoms') {
-                newSelected.outfits = [];
-            }
-        }
-        
-        return newSelected;
-    });
+  const handleSelectItem = (item: FilterItem, category: string) => {
+    // The outfit rules decide what a new pick clears, e.g. a dress clears any top and bottom.
+    onSelectedItemsChange(prev => toggleSelection(prev, item, category));
   };
 
   return (
     <div className="w-full">
       {/* Centralized uploader with AI classification */}
-      <StyleUploader onStyleUpload={onStyleUpload} classifyingItems={classifyingItems} />
+      <StyleUploader
+        onStyleUpload={onStyleUpload}
+        onResolveDuplicate={onResolveDuplicate}
+        classifyingItems={classifyingItems}
+        cleanupReviews={cleanupReviews}
+        onResolveCleanup={onResolveCleanup}
+        isCleanupEnabled={isCleanupEnabled}
+        onCleanupToggle={onCleanupToggle}
+      />
+
+      <input
+        type="search"
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        placeholder="Search by name, color, fabric, season..."
+        className="w-full mb-2 p-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-pink-500 focus:border-pink-500"
+        aria-label="Search catalogue"
+      />
+
+      {undoLabel && (
+        <div className="flex items-center justify-between mb-2 py-2 px-3 bg-stone-100 rounded-md text-sm text-stone-600 animate-fade-in" role="status">
+          <span className="truncate">{undoLabel}</span>
+          <button onClick={onUndo} className="ml-3 font-semibold text-pink-700 hover:text-pink-900 transition-colors">Undo</button>
+        </div>
+      )}
       
       <div className="border-b border-gray-200 mb-4">
         <nav className="-mb-px flex space-x-4 overflow-x-auto" aria-label="Tabs">
-          {CATEGORIES.map((category) => (
+          {TOP_LEVEL_CATEGORIES.map((category) => (
             <button
               key={category.id}
-              onClick={() => setActiveCategory(category.id)}
+              onClick={() => setActiveTab(category.id)}
               className={`whitespace-nowrap py-3 px-4 border-b-2 font-medium text-sm transition-colors ${
-                activeCategory === category.id
+                activeTab === category.id
                   ? 'border-pink-500 text-pink-600'
                   : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
               }`}
-              aria-current={activeCategory === category.id ? 'page' : undefined}
+              aria-current={activeTab === category.id ? 'page' : undefined}
             >
-              {category.name} ({catalogue[category.id]?.length || 0})
+              {category.label} ({countVisible(category.id)})
             </button>
           ))}
         </nav>
       </div>
 
       <div>
-        {(catalogue[activeCategory] || []).length > 0 ? (
-           <ItemGrid
-            filterItems={catalogue[activeCategory] || []}
-            selectedFilterItems={selectedItems[activeCategory] || []}
-            onSelectFilterItem={(item) => handleSelectItem(item, activeCategory)}
-          />
+        {countVisible(activeTab) > 0 ? (
+          <div className="space-y-4">
+            {activeSections.filter(section => section.items.length > 0).map(section => (
+              <div key={section.id}>
+                {/* Only label sections when the tab has sub-categories to tell apart. */}
+                {activeSections.length > 1 && (
+                  <h4 className="text-sm font-semibold text-stone-600 mb-2">{getCategory(section.id)?.label || section.id}</h4>
+                )}
+                <ItemGrid
+                  filterItems={section.items}
+                  selectedFilterItems={selectedItems[section.id] || []}
+                  onSelectFilterItem={(item) => handleSelectItem(item, section.id)}
+                  onEditFilterItem={(item) => setEditing({ item, category: section.id })}
+                  onDeleteFilterItem={(item) => onItemDelete(item, section.id)}
+                />
+              </div>
+            ))}
+          </div>
+        ) : searchQuery.trim() && hasAnyInTab ? (
+          <div className="text-center py-10 px-4 bg-stone-100 rounded-lg">
+            <p className="text-stone-600">No items match "{searchQuery}".</p>
+          </div>
         ) : (
           <div className="text-center py-10 px-4 bg-stone-100 rounded-lg">
             <p className="text-stone-600">No items in this category yet.</p>
@@ -93,6 +150,17 @@ const Catalogue: React.FC<CatalogueProps> = ({ catalogue, selectedItems, onSelec
           </div>
         )}
       </div>
+
+      {editing && (
+        <ItemEditor
+          item={editing.item}
+          category={editing.category}
+          categories={EDITOR_CATEGORIES}
+          onSave={(item, targetCategory) => { onItemUpdate(item, editing.category, targetCategory); setEditing(null); }}
+          onDelete={() => { onItemDelete(editing.item, editing.category); setEditing(null); }}
+          onClose={() => setEditing(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import { BundledWardrobe, ConflictResolution, ImportMode, ImportOptions, ImportSummary, createCatalogueBundle, parseCatalogueBundle, countImportConflicts } from '../utils/catalogueBundle';
+import { revokeItemImageUrls } from '../utils/imageUtils';
+import { DownloadIcon, UploadIcon } from './icons';
+
+interface CatalogueTransferProps {
+  wardrobes: BundledWardrobe[];
+  onImport: (incoming: BundledWardrobe[], options: ImportOptions) => ImportSummary;
+}
+
+const CONFLICT_OPTIONS: { value: ConflictResolution; label: string }[] = [
+  { value: 'skip', label: 'Keep my existing items' },
+  { value: 'overwrite', label: 'Replace them with the imported items' },
+  { value: 'keep-both', label: 'Keep both copies' },
+];
+
+const countItems = (wardrobes: BundledWardrobe[]) =>
+  wardrobes.reduce((total, { catalogue }) => total + Object.values(catalogue).flat().length, 0);
+
+// Exports every wardrobe to a bundle file and imports one back, so prepared wardrobes can be shared.
+const CatalogueTransfer: React.FC<CatalogueTransferProps> = ({ wardrobes, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; wardrobes: BundledWardrobe[] } | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [conflictResolution, setConflictResolution] = useState<ConflictResolution>('skip');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const isEmpty = countItems(wardrobes) === 0;
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(createCatalogueBundle(wardrobes));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `style-studio-catalogue-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const incoming = await parseCatalogueBundle(file);
+      if (countItems(incoming) === 0) {
+        setMessage({ text: `"${file.name}" does not contain any items.`, isError: true });
+        return;
+      }
+      setMessage(null);
+      setPendingImport({ fileName: file.name, wardrobes: incoming });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : "Could not read the bundle.", isError: true });
+    }
+  };
+
+  const handleConfirmImport = () => {
+    if (!pendingImport) return;
+    const { added, replaced, skipped, unsupported, unknownCategories } = onImport(pendingImport.wardrobes, { mode, conflictResolution });
+    const parts = [`${added} added`, replaced > 0 && `${replaced} replaced`, skipped > 0 && `${skipped} skipped`].filter(Boolean);
+    const unsupportedNote = unsupported > 0
+      ? ` ${unsupported} item${unsupported === 1 ? ' was' : 's were'} left out because this app has no category called ${unknownCategories.map(category => `"${category}"`).join(', ')}.`
+      : '';
+    setMessage({ text: `Imported "${pendingImport.fileName}": ${parts.join(', ')}.${unsupportedNote}`, isError: false });
+    setPendingImport(null);
+  };
+
+  const handleCancelImport = () => {
+    // The parsed items were never added, so their preview URLs can go.
+    (pendingImport?.wardrobes || []).forEach(({ catalogue }: BundledWardrobe) =>
+      Object.values(catalogue).flat().forEach(item => revokeItemImageUrls(item))
+    );
+    setPendingImport(null);
+  };
+
+  const existingCatalogues = Object.fromEntries(wardrobes.map(({ wardrobe, catalogue }) => [wardrobe.id, catalogue]));
+  const conflicts = pendingImport ? countImportConflicts(existingCatalogues, pendingImport.wardrobes, mode) : 0;
+  const existingIds = new Set(wardrobes.map(({ wardrobe }) => wardrobe.id));
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-end gap-3 text-sm">
+        <button onClick={() => fileInputRef.current?.click()} className="text-stone-600 hover:text-pink-700 font-semibold flex items-center gap-1 transition-colors">
+          <UploadIcon className="w-4 h-4" /> Import
+        </button>
+        <button onClick={handleExport} disabled={isEmpty} className="text-stone-600 hover:text-pink-700 font-semibold flex items-center gap-1 transition-colors disabled:text-gray-300 disabled:cursor-not-allowed">
+          <DownloadIcon className="w-4 h-4" /> Export
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+      </div>
+      {message && (
+        <p className={`text-xs mt-1 text-right ${message.isError ? 'text-red-600' : 'text-stone-500'}`} role={message.isError ? 'alert' : 'status'}>{message.text}</p>
+      )}
+
+      {pendingImport && (
+        <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4" onClick={handleCancelImport}>
+          <div onClick={(e) => e.stopPropagation()} className="bg-white rounded-lg shadow-2xl w-full max-w-md p-6 animate-fade-in" role="dialog" aria-label="Import catalogue">
+            <h3 className="text-xl font-bold text-stone-700">Import catalogue</h3>
+            <p className="text-sm text-stone-500 mt-1">
+              "{pendingImport.fileName}" contains {countItems(pendingImport.wardrobes)} styles in {pendingImport.wardrobes.length} {pendingImport.wardrobes.length === 1 ? 'wardrobe' : 'wardrobes'}:
+            </p>
+            <ul className="text-sm text-stone-600 mt-2 list-disc list-inside">
+              {pendingImport.wardrobes.map(({ wardrobe, catalogue }) => (
+                <li key={wardrobe.id}>
+                  {wardrobe.name} ({Object.values(catalogue).flat().length}){existingIds.has(wardrobe.id) ? '' : ' — new'}
+                </li>
+              ))}
+            </ul>
+
+            <fieldset className="mt-4 space-y-2 text-sm text-gray-700">
+              <label className="flex items-start gap-2">
+                <input type="radio" name="import-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1 text-pink-600 focus:ring-pink-500" />
+                <span><span className="font-semibold">Merge</span> into matching wardrobes, keeping the styles already there</span>
+              </label>
+              <label className="flex items-start gap-2">
+                <input type="radio" name="import-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1 text-pink-600 focus:ring-pink-500" />
+                <span><span className="font-semibold">Replace</span> matching wardrobes; the styles already there will be removed</span>
+              </label>
+            </fieldset>
+
+            {conflicts > 0 && (
+              <label className="block text-sm font-medium text-gray-700 mt-4">
+                {conflicts} imported {conflicts === 1 ? 'item has' : 'items have'} the same id as an existing item:
+                <select value={conflictResolution} onChange={(e) => setConflictResolution(e.target.value as ConflictResolution)} className="mt-1 block w-full p-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-pink-500 focus:border-pink-500">
+                  {CONFLICT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+              </label>
+            )}
+
+            <div className="flex justify-end gap-2 mt-6">
+              <button onClick={handleCancelImport} className="py-2 px-4 text-sm font-semibold text-gray-600 rounded-lg hover:bg-gray-100 transition-colors">Cancel</button>
+              <button onClick={handleConfirmImport} className="py-2 px-6 bg-pink-600 text-white font-semibold rounded-lg shadow-md hover:bg-pink-700 transition-colors text-sm">Import</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CatalogueTransfer;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { TryOnItem } from '../types';
+import { BatchEstimate, PlanStrategy, combinationKey } from '../utils/outfitPlanner';
+
+interface CombinationPlannerProps {
+  combinations: TryOnItem[][];
+  excludedKeys: Set<string>;
+  maxCombinations: number;
+  strategy: PlanStrategy;
+  plannedCount: number;
+  estimate: BatchEstimate;
+  onToggle: (key: string) => void;
+  onMaxChange: (max: number) => void;
+  onStrategyChange: (strategy: PlanStrategy) => void;
+}
+
+const STRATEGY_OPTIONS: { value: PlanStrategy; label: string }[] = [
+  { value: 'all', label: 'Every combination' },
+  { value: 'vary-one', label: 'Vary one slot at a time' },
+];
+
+// Above this many calls the estimate is highlighted, since a batch that size eats a free-tier quota fast.
+const LARGE_BATCH_CALLS = 10;
+
+const formatDuration = (seconds: number) =>
+  seconds < 90 ? `~${Math.ceil(seconds)}s` : `~${Math.ceil(seconds / 60)} min`;
+
+// Shows what a try-on batch will generate before any calls are made, and lets the user trim it.
+const CombinationPlanner: React.FC<CombinationPlannerProps> = ({ combinations, excludedKeys, maxCombinations, strategy, plannedCount, estimate, onToggle, onMaxChange, onStrategyChange }) => {
+  if (combinations.length === 0) {
+    return null;
+  }
+
+  // Combinations past the cap are shown but greyed out, so the user sees what the maximum cuts.
+  let includedSoFar = 0;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md border border-pink-100">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="text-lg font-bold text-stone-700">Batch Plan</h3>
+        <select
+          value={strategy}
+          onChange={(e) => onStrategyChange(e.target.value as PlanStrategy)}
+          className="p-1 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-pink-500 focus:border-pink-500"
+          aria-label="Combination strategy"
+        >
+          {STRATEGY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+      </div>
+
+      <ul className="max-h-56 overflow-y-auto space-y-1 pr-1">
+        {combinations.map((combination, index) => {
+          const key = combinationKey(combination);
+          const isTicked = !excludedKeys.has(key);
+          const isWithinCap = isTicked && includedSoFar < maxCombinations;
+          if (isTicked) includedSoFar++;
+          return (
+            <li key={key}>
+              <label className={`flex items-center gap-2 p-1 rounded hover:bg-pink-50 cursor-pointer ${isTicked && !isWithinCap ? 'opacity-50' : ''}`}>
+                <input type="checkbox" checked={isTicked} onChange={() => onToggle(key)} className="rounded text-pink-600 focus:ring-pink-500" />
+                <span className="text-xs text-stone-400 w-5 text-right">{index + 1}</span>
+                <div className="flex -space-x-2">
+                  {combination.map(item => (
+                    <img key={item.id} src={item.image.thumbnailUrl || item.image.url} alt={item.name} className="w-7 h-9 object-cover rounded border border-white" />
+                  ))}
+                </div>
+                <span className="text-xs text-stone-600 truncate" title={combination.map(item => item.name).join(', ')}>
+                  {combination.map(item => item.name).join(' + ')}
+                </span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center justify-between gap-2 mt-3 text-sm">
+        <label className="flex items-center gap-2 text-stone-600">
+          At most
+          <input
+            type="number"
+            min={1}
+            value={maxCombinations}
+            onChange={(e) => onMaxChange(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+            className="w-16 p-1 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-pink-500 focus:border-pink-500"
+            aria-label="Maximum combinations"
+          />
+          looks
+        </label>
+        <p className={`text-right ${plannedCount > LARGE_BATCH_CALLS ? 'text-amber-700 font-semibold' : 'text-stone-500'}`} role="status">
+          {plannedCount} of {combinations.length} {combinations.length === 1 ? 'look' : 'looks'}
+          {plannedCount > 0 && <> · {formatDuration(estimate.seconds)} · up to ${estimate.costUsd.toFixed(2)}</>}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CombinationPlanner;
@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface ComparisonViewerProps {
+  sourceSrc: string;
+  resultSrcs: string[];
+  resultLabels: string[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+type ComparisonView = 'split' | 'side-by-side';
+
+interface PointerPosition {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const LOUPE_DIAMETER = 180;
+const LOUPE_ZOOM_OPTIONS = [2, 3, 4, 6];
+const SPLIT_KEYBOARD_STEP = 2;
+
+// Where an `object-contain` image actually sits inside its box, so the loupe lines up with it.
+const containRect = (natural: Size, box: Size) => {
+  const scale = Math.min(box.width / natural.width, box.height / natural.height);
+  const width = natural.width * scale;
+  const height = natural.height * scale;
+  return { x: (box.width - width) / 2, y: (box.height - height) / 2, width, height };
+};
+
+// A magnified circle of `src` centred on the pointer. Drawn as a background so it needs no second decode.
+const Loupe: React.FC<{ src: string; natural: Size | undefined; pointer: PointerPosition; zoom: number }> = ({ src, natural, pointer, zoom }) => {
+  if (!natural) return null;
+  const rect = containRect(natural, pointer);
+  const radius = LOUPE_DIAMETER / 2;
+  return (
+    <div
+      className="absolute rounded-full border-4 border-white shadow-2xl pointer-events-none bg-stone-900 bg-no-repeat"
+      style={{
+        width: LOUPE_DIAMETER,
+        height: LOUPE_DIAMETER,
+        left: pointer.x - radius,
+        top: pointer.y - radius,
+        backgroundImage: `url(${src})`,
+        backgroundSize: `${rect.width * zoom}px ${rect.height * zoom}px`,
+        backgroundPosition: `${radius - (pointer.x - rect.x) * zoom}px ${radius - (pointer.y - rect.y) * zoom}px`,
+      }}
+      aria-hidden="true"
+    />
+  );
+};
+
+// Compares the source photo with one result at a time: a draggable before/after split or the two
+// side by side, with an optional loupe for checking garment detail and faces. Arrow keys change look.
+const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ sourceSrc, resultSrcs, resultLabels, index, onIndexChange, onClose }) => {
+  const [view, setView] = useState<ComparisonView>('split');
+  const [split, setSplit] = useState(50);
+  const [isLoupeOn, setIsLoupeOn] = useState(false);
+  const [zoom, setZoom] = useState(LOUPE_ZOOM_OPTIONS[1]);
+  const [pointer, setPointer] = useState<PointerPosition | null>(null);
+  const [naturalSizes, setNaturalSizes] = useState<Record<string, Size>>({});
+  const isDraggingRef = useRef(false);
+
+  const resultSrc = resultSrcs[index];
+  const hasPrevious = index > 0;
+  const hasNext = index < resultSrcs.length - 1;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave the keys alone while the zoom select or another control is being used.
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key === 'ArrowLeft' && hasPrevious) {
+        e.preventDefault();
+        onIndexChange(index - 1);
+      } else if (e.key === 'ArrowRight' && hasNext) {
+        e.preventDefault();
+        onIndexChange(index + 1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [index, hasPrevious, hasNext, onIndexChange, onClose]);
+
+  const recordNaturalSize = (src: string) => (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    setNaturalSizes(prev => ({ ...prev, [src]: { width: naturalWidth, height: naturalHeight } }));
+  };
+
+  const toPointer = (e: React.PointerEvent<HTMLDivElement>): PointerPosition => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - bounds.left, y: e.clientY - bounds.top, width: bounds.width, height: bounds.height };
+  };
+
+  const moveSplitTo = (position: PointerPosition) => {
+    setSplit(Math.min(100, Math.max(0, (position.x / position.width) * 100)));
+  };
+
+  const handleSplitPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    isDraggingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    moveSplitTo(toPointer(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const position = toPointer(e);
+    if (isLoupeOn) setPointer(position);
+    if (isDraggingRef.current) moveSplitTo(position);
+  };
+
+  const handlePointerUp = () => {
+    isDraggingRef.current = false;
+  };
+
+  const handleSplitKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const changes: Record<string, number> = { ArrowLeft: -SPLIT_KEYBOARD_STEP, ArrowRight: SPLIT_KEYBOARD_STEP, Home: -100, End: 100 };
+    if (!(e.key in changes)) return;
+    // The arrows move the divider here rather than changing look.
+    e.preventDefault();
+    e.stopPropagation();
+    setSplit(prev => Math.min(100, Math.max(0, prev + changes[e.key])));
+  };
+
+  const imageClassName = "absolute inset-0 w-full h-full object-contain select-none";
+  const paneClassName = "relative w-full h-[65vh] bg-stone-900 rounded-lg overflow-hidden touch-none";
+  const tagClassName = "absolute top-2 px-2 py-0.5 rounded bg-black bg-opacity-60 text-white text-xs font-semibold pointer-events-none";
+  const toggleClassName = (isActive: boolean) => `py-1 px-3 rounded-md text-sm font-semibold transition-colors ${isActive ? 'bg-pink-600 text-white shadow' : 'text-gray-600'}`;
+
+  // In the split view the loupe magnifies whichever image is under the pointer.
+  const splitLoupeSrc = pointer && (pointer.x / pointer.width) * 100 < split ? sourceSrc : resultSrc;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-75 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-lg shadow-2xl w-full max-w-5xl max-h-[95vh] overflow-y-auto p-4 animate-fade-in"
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Compare ${resultLabels[index]} with the original photo`}
+      >
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <div className="flex items-center gap-2">
+            <button onClick={() => onIndexChange(index - 1)} disabled={!hasPrevious} className="py-1 px-3 rounded-md bg-gray-100 text-stone-700 font-semibold disabled:opacity-40" aria-label="Previous look">‹</button>
+            <h3 className="text-lg font-bold text-stone-700">
+              {resultLabels[index]}
+              {resultSrcs.length > 1 && <span className="text-sm font-normal text-stone-500 ml-2">{index + 1} of {resultSrcs.length}</span>}
+            </h3>
+            <button onClick={() => onIndexChange(index + 1)} disabled={!hasNext} className="py-1 px-3 rounded-md bg-gray-100 text-stone-700 font-semibold disabled:opacity-40" aria-label="Next look">›</button>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex bg-gray-100 rounded-lg p-1">
+              <button onClick={() => setView('split')} className={toggleClassName(view === 'split')}>Split</button>
+              <button onClick={() => setView('side-by-side')} className={toggleClassName(view === 'side-by-side')}>Side by side</button>
+            </div>
+            <button onClick={() => { setIsLoupeOn(!isLoupeOn); setPointer(null); }} className={`${toggleClassName(isLoupeOn)} ${isLoupeOn ? '' : 'bg-gray-100'}`} aria-pressed={isLoupeOn}>Loupe</button>
+            {isLoupeOn && (
+              <select value={zoom} onChange={(e) => setZoom(Number(e.target.value))} className="p-1 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-pink-500 focus:border-pink-500" aria-label="Loupe zoom">
+                {LOUPE_ZOOM_OPTIONS.map(option => <option key={option} value={option}>{option}×</option>)}
+              </select>
+            )}
+            <button onClick={onClose} className="py-1 px-3 text-sm font-semibold text-stone-600 hover:text-stone-900">Close</button>
+          </div>
+        </div>
+
+        {view === 'split' ? (
+          <div
+            className={`${paneClassName} cursor-ew-resize`}
+            onPointerDown={handleSplitPointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={() => setPointer(null)}
+          >
+            <img src={resultSrc} alt={resultLabels[index]} className={imageClassName} draggable={false} onLoad={recordNaturalSize(resultSrc)} />
+            <img src={sourceSrc} alt="Original photo" className={imageClassName} style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }} draggable={false} onLoad={recordNaturalSize(sourceSrc)} />
+            <span className={`${tagClassName} left-2`}>Before</span>
+            <span className={`${tagClassName} right-2`}>After</span>
+            <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${split}%` }}>
+              <div
+                role="slider"
+                tabIndex={0}
+                aria-label="Before and after divider"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(split)}
+                onKeyDown={handleSplitKeyDown}
+                className="absolute top-1/2 left-0 -translate-x-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-white shadow-lg flex items-center justify-center text-stone-600 font-bold pointer-events-auto focus:outline-none focus:ring-2 focus:ring-pink-500"
+              >
+                ⇔
+              </div>
+            </div>
+            {isLoupeOn && pointer && <Loupe src={splitLoupeSrc} natural={naturalSizes[splitLoupeSrc]} pointer={pointer} zoom={zoom} />}
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {[{ src: sourceSrc, alt: 'Original photo', tag: 'Before' }, { src: resultSrc, alt: resultLabels[index], tag: 'After' }].map(pane => (
+              // Both panes share the pointer position, so the loupe shows the same spot in each.
+              <div key={pane.tag} className={`${paneClassName} ${isLoupeOn ? 'cursor-none' : ''}`} onPointerMove={handlePointerMove} onPointerLeave={() => setPointer(null)}>
+                <img src={pane.src} alt={pane.alt} className={imageClassName} draggable={false} onLoad={recordNaturalSize(pane.src)} />
+                <span className={`${tagClassName} left-2`}>{pane.tag}</span>
+                {isLoupeOn && pointer && <Loupe src={pane.src} natural={naturalSizes[pane.src]} pointer={pointer} zoom={zoom} />}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-stone-500 mt-2 text-center">
+          {view === 'split' ? 'Drag across the image to move the divider. ' : ''}← → switch looks · Esc closes
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonViewer;
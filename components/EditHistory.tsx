@@ -0,0 +1,80 @@
+import React from 'react';
+import { UploadedImage } from '../types';
+import { LineageNode } from '../utils/lineage';
+import { EditIcon } from './icons';
+
+interface EditHistoryProps {
+  tree: LineageNode;
+  selectedImage: UploadedImage;
+  // The selected image and its ancestors, highlighted as the current path through the tree.
+  path: UploadedImage[];
+  canUndo: boolean;
+  canRedo: boolean;
+  onSelect: (image: UploadedImage) => void;
+  onBranch: (image: UploadedImage) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+interface BranchProps {
+  node: LineageNode;
+  selectedImage: UploadedImage;
+  path: UploadedImage[];
+  onSelect: (image: UploadedImage) => void;
+  onBranch: (image: UploadedImage) => void;
+}
+
+const LineageBranch: React.FC<BranchProps> = ({ node, selectedImage, path, onSelect, onBranch }) => {
+  const { image } = node;
+  const isSelected = image.url === selectedImage.url;
+  const isOnPath = path.includes(image);
+  const operation = image.lineage?.operation || 'Photo';
+
+  return (
+    <li>
+      <div className={`group flex items-center gap-2 p-1 rounded ${isSelected ? 'bg-pink-100' : 'hover:bg-pink-50'}`}>
+        <button onClick={() => onSelect(image)} className="flex items-center gap-2 min-w-0 flex-grow text-left" aria-pressed={isSelected} aria-label={`Select ${operation}`}>
+          <img src={image.thumbnailUrl || image.url} alt="" className={`w-8 h-8 object-cover rounded flex-shrink-0 border-2 ${isOnPath ? 'border-pink-400' : 'border-transparent'}`} />
+          <span className={`text-xs truncate ${isOnPath ? 'text-stone-800 font-semibold' : 'text-stone-500'}`} title={operation}>{operation}</span>
+        </button>
+        <button
+          onClick={() => onBranch(image)}
+          className="flex-shrink-0 text-xs text-pink-700 hover:text-pink-900 font-semibold opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity flex items-center gap-1"
+          title="Start a new edit from this image"
+        >
+          <EditIcon className="w-3 h-3" /> Edit from here
+        </button>
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-4 pl-2 border-l border-pink-200 space-y-0.5">
+          {node.children.map(child => (
+            <LineageBranch key={child.image.url} node={child} selectedImage={selectedImage} path={path} onSelect={onSelect} onBranch={onBranch} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+// The edit history of the selected workspace image: every image generated from the same photo,
+// as a tree. Undo and redo step along the selected image's branch.
+const EditHistory: React.FC<EditHistoryProps> = ({ tree, selectedImage, path, canUndo, canRedo, onSelect, onBranch, onUndo, onRedo }) => {
+  const buttonClassName = "py-1 px-3 rounded-md bg-gray-100 text-stone-700 text-xs font-semibold hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="mt-4">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-bold text-stone-700">History</h3>
+        <div className="flex gap-2">
+          <button onClick={onUndo} disabled={!canUndo} className={buttonClassName} title="Select the image this one was made from">Undo</button>
+          <button onClick={onRedo} disabled={!canRedo} className={buttonClassName} title="Select the next image made from this one">Redo</button>
+        </div>
+      </div>
+      <ul className="max-h-56 overflow-y-auto bg-stone-50 rounded-lg p-2">
+        <LineageBranch node={tree} selectedImage={selectedImage} path={path} onSelect={onSelect} onBranch={onBranch} />
+      </ul>
+    </div>
+  );
+};
+
+export default EditHistory;
@@ -1,50 +1,40 @@
 import React, { useState, useCallback, useRef } from 'react';
 import { UploadedImage } from '../types';
-import { UploadIcon, RetryIcon, ExpandIcon, CompressIcon } from './icons';
+import { UploadIcon, RetryIcon, ExpandIcon, CompressIcon, LoadingSpinner } from './icons';
+import { ingestImage, validateImageFile, PHOTO_INGEST_OPTIONS } from '../utils/imageIngest';
 
 interface ImageUploaderProps {
   onImageAdd: (image: UploadedImage) => void;
 }
 
-const MAX_FILE_SIZE_MB = 5;
-const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
-
 const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageAdd }) => {
   const [uploadedImage, setUploadedImage] = useState<UploadedImage | null>(null);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fitMode, setFitMode] = useState<'contain' | 'cover'>('contain');
+  const [isProcessing, setIsProcessing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const processFile = useCallback((file: File) => {
-    if (file.size > MAX_FILE_SIZE_BYTES) {
-        setError(`Image is too large. Max size is ${MAX_FILE_SIZE_MB}MB.`);
-        return;
-    }
-    if (!file.type.startsWith('image/')) {
-        setError('Please upload a valid image file (PNG, JPG, etc.).');
+  const processFile = useCallback(async (file: File) => {
+    const rejection = validateImageFile(file);
+    if (rejection) {
+        setError(rejection);
         return;
     }
     setError(null);
     setFitMode('contain'); // Reset for new image
-
-    const reader = new FileReader();
-    reader.onloadend = () => {
-        const base64String = (reader.result as string).split(',')[1];
-        const imageUrl = URL.createObjectURL(file);
-        const newImage: UploadedImage = {
-            base64: base64String,
-            mimeType: file.type,
-            url: imageUrl,
-            name: file.name
-        };
+    setIsProcessing(true);
+    try {
+        // Phone photos are turned upright and shrunk before they reach the workspace or the model.
+        const newImage = await ingestImage(file, PHOTO_INGEST_OPTIONS);
         setUploadedImage(newImage);
         onImageAdd(newImage);
-    };
-    reader.onerror = () => {
+    } catch (err) {
+        console.error("Error processing the photo:", err);
         setError("There was an error reading the file.");
-    };
-    reader.readAsDataURL(file);
+    } finally {
+        setIsProcessing(false);
+    }
   }, [onImageAdd]);
 
 
@@ -140,8 +130,8 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageAdd }) => {
             onClick={handleUploadClick}
             className={`w-full h-full flex flex-col justify-center items-center text-center p-8 border-4 border-dashed rounded-lg cursor-pointer transition-colors duration-300 ${isDraggingOver ? 'border-pink-500 bg-pink-100' : 'border-pink-200'}`}
         >
-            <UploadIcon className="h-16 w-16 text-pink-400" />
-            <p className="mt-4 text-lg font-semibold text-stone-700">Drag & Drop Your Photo</p>
+            {isProcessing ? <LoadingSpinner /> : <UploadIcon className="h-16 w-16 text-pink-400" />}
+            <p className="mt-4 text-lg font-semibold text-stone-700">{isProcessing ? 'Preparing your photo...' : 'Drag & Drop Your Photo'}</p>
             <p className="text-gray-500">or click to browse</p>
             {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
         </div>
@@ -0,0 +1,227 @@
+import React, { useRef, useState } from 'react';
+import { FilterItem, GarmentAttributes, Formality, Season, UploadedImage } from '../types';
+import { revokeImageUrls } from '../utils/imageUtils';
+import { ingestImage, validateImageFile, GARMENT_INGEST_OPTIONS } from '../utils/imageIngest';
+import { cleanGarmentBackground } from '../utils/garmentCleanup';
+import { TrashIcon } from './icons';
+
+interface ItemEditorProps {
+  item: FilterItem;
+  category: string;
+  categories: { id: string; name: string }[];
+  onSave: (item: FilterItem, targetCategory: string) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const FORMALITIES: Formality[] = ['casual', 'smart-casual', 'business', 'formal', 'festive'];
+const SEASONS: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+const EMPTY_ATTRIBUTES: GarmentAttributes = {
+  dominantColors: [],
+  pattern: '',
+  fabric: '',
+  sleeveStyle: 'n/a',
+  neckline: 'n/a',
+  length: 'n/a',
+  formality: 'casual',
+  seasons: [],
+  description: '',
+};
+
+const TEXT_FIELDS: { key: 'pattern' | 'fabric' | 'sleeveStyle' | 'neckline' | 'length'; label: string }[] = [
+  { key: 'pattern', label: 'Pattern' },
+  { key: 'fabric', label: 'Fabric' },
+  { key: 'sleeveStyle', label: 'Sleeves' },
+  { key: 'neckline', label: 'Neckline' },
+  { key: 'length', label: 'Length' },
+];
+
+const inputClassName = "mt-1 block w-full p-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-pink-500 focus:border-pink-500";
+
+// A modal form for renaming, recategorizing or replacing a catalogue item and correcting its AI-extracted attributes.
+const ItemEditor: React.FC<ItemEditorProps> = ({ item, category, categories, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState(item.name);
+  const [targetCategory, setTargetCategory] = useState(category);
+  const [replacementImage, setReplacementImage] = useState<UploadedImage | null>(null);
+  const [cleanedImage, setCleanedImage] = useState<UploadedImage | undefined>(item.cleanedImage);
+  const [cleanupStatus, setCleanupStatus] = useState<'idle' | 'running' | 'no-background'>('idle');
+  const [attributes, setAttributes] = useState<GarmentAttributes>(item.attributes || EMPTY_ATTRIBUTES);
+  const [colorsText, setColorsText] = useState((item.attributes?.dominantColors || []).join(', '));
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const update = <K extends keyof GarmentAttributes,>(key: K, value: GarmentAttributes[K]) => {
+    setAttributes(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleSeason = (season: Season) => {
+    update('seasons', attributes.seasons.includes(season)
+      ? attributes.seasons.filter(s => s !== season)
+      : [...attributes.seasons, season]);
+  };
+
+  // Only a cleaned copy made in this editor is ours to release; the item's own may still be needed by undo.
+  const releaseCleanedImage = () => {
+    if (cleanedImage && cleanedImage !== item.cleanedImage) revokeImageUrls(cleanedImage);
+  };
+
+  const handleCleanup = async () => {
+    setCleanupStatus('running');
+    try {
+      const cleaned = await cleanGarmentBackground(replacementImage || item.image);
+      releaseCleanedImage();
+      setCleanedImage(cleaned || undefined);
+      setCleanupStatus(cleaned ? 'idle' : 'no-background');
+    } catch (err) {
+      console.error("Could not clean up the background:", err);
+      setCleanupStatus('no-background');
+    }
+  };
+
+  const handleUseOriginal = () => {
+    releaseCleanedImage();
+    setCleanedImage(undefined);
+  };
+
+  const handleImageChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || validateImageFile(file)) return;
+    try {
+      const image = await ingestImage(file, GARMENT_INGEST_OPTIONS);
+      if (replacementImage) revokeImageUrls(replacementImage);
+      setReplacementImage(image);
+      // A cleaned copy of the old photo no longer matches.
+      handleUseOriginal();
+      setCleanupStatus('idle');
+    } catch (err) {
+      console.error("Could not read the replacement image:", err);
+    }
+  };
+
+  const releaseEditorImages = () => {
+    if (replacementImage) revokeImageUrls(replacementImage);
+    releaseCleanedImage();
+  };
+
+  const handleClose = () => {
+    releaseEditorImages();
+    onClose();
+  };
+
+  const handleDelete = () => {
+    releaseEditorImages();
+    onDelete();
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const dominantColors = colorsText.split(',').map(color => color.trim()).filter(Boolean);
+    onSave({
+      ...item,
+      name: name.trim() || item.name,
+      image: replacementImage || item.image,
+      cleanedImage,
+      attributes: { ...attributes, dominantColors },
+    }, targetCategory);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4" onClick={handleClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-lg shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 animate-fade-in"
+        aria-label={`Edit ${item.name}`}
+      >
+        <div className="flex gap-4 mb-4">
+          <div className="flex-shrink-0 text-center">
+            <img src={(replacementImage || item.image).url} alt={item.name} className="w-20 h-28 object-cover rounded-md" />
+            <button type="button" onClick={() => imageInputRef.current?.click()} className="text-xs text-pink-700 hover:text-pink-900 font-semibold mt-1">
+              Replace image
+            </button>
+            <input ref={imageInputRef} type="file" accept="image/*" onChange={handleImageChange} className="hidden" />
+            {cleanedImage ? (
+              <div className="mt-2">
+                <img src={cleanedImage.url} alt={`${item.name}, background cleaned`} className="w-20 h-28 object-contain bg-stone-100 rounded-md" />
+                <p className="text-[10px] text-stone-500">Used for try-on</p>
+                <button type="button" onClick={handleUseOriginal} className="text-xs text-pink-700 hover:text-pink-900 font-semibold">
+                  Use original
+                </button>
+              </div>
+            ) : (
+              <>
+                <button type="button" onClick={handleCleanup} disabled={cleanupStatus === 'running'} className="block mx-auto text-xs text-pink-700 hover:text-pink-900 font-semibold mt-1 disabled:text-gray-400">
+                  {cleanupStatus === 'running' ? 'Cleaning...' : 'Clean background'}
+                </button>
+                {cleanupStatus === 'no-background' && <p className="text-[10px] text-stone-500 w-20">Nothing to clean up was found.</p>}
+              </>
+            )}
+          </div>
+          <div className="flex-grow">
+            <label className="block text-sm font-medium text-gray-700">
+              Name
+              <input value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} required />
+            </label>
+            <label className="block text-sm font-medium text-gray-700 mt-2">
+              Category
+              <select value={targetCategory} onChange={(e) => setTargetCategory(e.target.value)} className={inputClassName}>
+                {categories.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+              </select>
+            </label>
+            {!item.attributes && <p className="text-sm text-stone-500 mt-1">This item was added before attributes were extracted. Fill them in by hand.</p>}
+          </div>
+        </div>
+
+        <label className="block text-sm font-medium text-gray-700">
+          Description
+          <textarea value={attributes.description} onChange={(e) => update('description', e.target.value)} rows={2} className={inputClassName} />
+        </label>
+        <label className="block text-sm font-medium text-gray-700 mt-3">
+          Dominant colors (comma separated)
+          <input value={colorsText} onChange={(e) => setColorsText(e.target.value)} className={inputClassName} />
+        </label>
+        <div className="grid grid-cols-2 gap-3 mt-3">
+          {TEXT_FIELDS.map(({ key, label }) => (
+            <label key={key} className="block text-sm font-medium text-gray-700">
+              {label}
+              <input value={attributes[key]} onChange={(e) => update(key, e.target.value)} className={inputClassName} />
+            </label>
+          ))}
+          <label className="block text-sm font-medium text-gray-700">
+            Formality
+            <select value={attributes.formality} onChange={(e) => update('formality', e.target.value as Formality)} className={inputClassName}>
+              {FORMALITIES.map(formality => <option key={formality} value={formality}>{formality}</option>)}
+            </select>
+          </label>
+        </div>
+        <fieldset className="mt-3">
+          <legend className="text-sm font-medium text-gray-700">Seasons</legend>
+          <div className="flex gap-2 mt-1 flex-wrap">
+            {SEASONS.map(season => (
+              <button
+                type="button"
+                key={season}
+                onClick={() => toggleSeason(season)}
+                aria-pressed={attributes.seasons.includes(season)}
+                className={`py-1 px-3 rounded-full text-xs font-semibold transition-colors ${attributes.seasons.includes(season) ? 'bg-pink-600 text-white' : 'bg-gray-100 text-gray-600'}`}
+              >
+                {season}
+              </button>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button type="button" onClick={handleDelete} className="mr-auto py-2 px-3 text-sm font-semibold text-red-600 rounded-lg hover:bg-red-50 transition-colors flex items-center gap-1">
+            <TrashIcon /> Delete
+          </button>
+          <button type="button" onClick={handleClose} className="py-2 px-4 text-sm font-semibold text-gray-600 rounded-lg hover:bg-gray-100 transition-colors">Cancel</button>
+          <button type="submit" className="py-2 px-6 bg-pink-600 text-white font-semibold rounded-lg shadow-md hover:bg-pink-700 transition-colors text-sm">Save</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ItemEditor;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { GenerationJob } from '../types';
+
+interface JobQueueProps {
+  jobs: GenerationJob[];
+  isPaused: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
+  onCancelAll: () => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_STYLES: Record<GenerationJob['status'], string> = {
+  queued: 'bg-gray-100 text-gray-600',
+  running: 'bg-pink-100 text-pink-700',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-stone-200 text-stone-600',
+};
+
+const KIND_LABELS: Record<GenerationJob['kind'], string> = {
+  'try-on': 'Try-on',
+  edit: 'Edit',
+  video: 'Video',
+};
+
+// Shows every try-on, edit and video job, whichever mode started it, and lets the user
+// pause the queue, cancel jobs and retry the ones that failed.
+const JobQueue: React.FC<JobQueueProps> = ({ jobs, isPaused, onPause, onResume, onCancel, onRetry, onCancelAll, onClearFinished }) => {
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const activeCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+  const doneCount = jobs.filter(job => job.status === 'succeeded').length;
+  const hasFinished = activeCount < jobs.length;
+
+  const describe = (job: GenerationJob) => {
+    if (job.status === 'queued' && isPaused) return 'Paused';
+    const status = job.status.charAt(0).toUpperCase() + job.status.slice(1);
+    return job.attempt > 1 ? `${status} (try ${job.attempt})` : status;
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md animate-fade-in">
+      <div className="flex justify-between items-center mb-2 gap-2">
+        <h3 className="text-lg font-bold text-stone-700">Generation Queue</h3>
+        <div className="flex items-center gap-3 text-xs font-semibold">
+          {(activeCount > 0 || isPaused) && (
+            <button onClick={isPaused ? onResume : onPause} className="text-pink-600 hover:text-pink-800 transition-colors">
+              {isPaused ? 'Resume' : 'Pause'}
+            </button>
+          )}
+          {activeCount > 0 && (
+            <button onClick={onCancelAll} className="text-red-600 hover:text-red-800 transition-colors">Cancel all</button>
+          )}
+          {hasFinished && (
+            <button onClick={onClearFinished} className="text-stone-500 hover:text-stone-700 transition-colors">Clear finished</button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-stone-500 mb-2" role="status">
+        {doneCount} of {jobs.length} done{isPaused ? ' · paused, running jobs will still finish' : ''}
+      </p>
+      <ul className="space-y-1 max-h-60 overflow-y-auto">
+        {jobs.map(job => (
+          <li key={job.id} className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate text-stone-700" title={job.error || job.label}>
+              <span className="text-stone-400 text-xs mr-1">{KIND_LABELS[job.kind]}</span>{job.label}
+            </span>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <span className={`whitespace-nowrap px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[job.status]}`}>{describe(job)}</span>
+              {(job.status === 'queued' || job.status === 'running') && (
+                <button onClick={() => onCancel(job.id)} className="text-xs text-stone-500 hover:text-red-700 font-semibold transition-colors" aria-label={`Cancel ${job.label}`}>
+                  Cancel
+                </button>
+              )}
+              {(job.status === 'failed' || job.status === 'cancelled') && (
+                <button onClick={() => onRetry(job.id)} className="text-xs text-pink-600 hover:text-pink-800 font-semibold transition-colors" aria-label={`Retry ${job.label}`}>
+                  Retry
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default JobQueue;
@@ -1,16 +1,148 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { UploadedImage } from '../types';
-import { CameraIcon } from './icons';
+import { CameraSettings, CameraResolution, UploadedImage } from '../types';
+import { CameraIcon, SettingsIcon } from './icons';
+import { loadCameraSettingsFromStorage, saveCameraSettingsToStorage } from '../utils/storage';
+import { loadImageElement, revokeImageUrls } from '../utils/imageUtils';
+import {
+  CAMERA_RESOLUTIONS, SELF_TIMER_OPTIONS, BURST_OPTIONS, BURST_INTERVAL_MS,
+  normalizeCameraSettings, buildVideoConstraints, captureVideoFrame, measureSharpness,
+} from '../utils/cameraCapture';
 
 interface LiveTryOnProps {
   onImageAdd: (image: UploadedImage) => void;
 }
 
+interface BurstFrame {
+  image: UploadedImage;
+  sharpness: number;
+  isKept: boolean;
+}
+
+interface SettingsPanelProps {
+  settings: CameraSettings;
+  devices: MediaDeviceInfo[];
+  actualSize: string | null;
+  onChange: (changes: Partial<CameraSettings>) => void;
+  onClose: () => void;
+}
+
+const selectClassName = "mt-1 block w-full p-1.5 rounded-md bg-gray-800 border border-gray-600 text-sm text-white focus:ring-pink-500 focus:border-pink-500";
+
+const CameraSettingsPanel: React.FC<SettingsPanelProps> = ({ settings, devices, actualSize, onChange, onClose }) => (
+  <div className="absolute top-14 right-3 w-64 bg-gray-900 bg-opacity-95 rounded-lg shadow-2xl p-4 text-sm space-y-3 z-10" role="dialog" aria-label="Camera settings">
+    <div className="flex justify-between items-center">
+      <h3 className="font-bold">Camera settings</h3>
+      <button onClick={onClose} className="text-xs font-semibold text-gray-300 hover:text-white">Done</button>
+    </div>
+    <label className="block text-xs font-medium text-gray-300">
+      Camera
+      <select value={settings.deviceId || ''} onChange={(e) => onChange({ deviceId: e.target.value || null })} className={selectClassName}>
+        <option value="">Default (front camera)</option>
+        {devices.map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>{device.label || `Camera ${index + 1}`}</option>
+        ))}
+      </select>
+    </label>
+    <label className="block text-xs font-medium text-gray-300">
+      Resolution
+      <select value={settings.resolution} onChange={(e) => onChange({ resolution: e.target.value as CameraResolution })} className={selectClassName}>
+        {(Object.keys(CAMERA_RESOLUTIONS) as CameraResolution[]).map(resolution => (
+          <option key={resolution} value={resolution}>{CAMERA_RESOLUTIONS[resolution].label}</option>
+        ))}
+      </select>
+      {actualSize && <span className="block mt-1 text-[11px] text-gray-400">The camera is delivering {actualSize}.</span>}
+    </label>
+    <label className="flex items-center gap-2 text-xs font-medium text-gray-300 cursor-pointer">
+      <input type="checkbox" checked={settings.mirror} onChange={(e) => onChange({ mirror: e.target.checked })} className="rounded text-pink-600 focus:ring-pink-500" />
+      Mirror preview and photos
+    </label>
+    <fieldset>
+      <legend className="text-xs font-medium text-gray-300">Self-timer</legend>
+      <div className="flex gap-1 mt-1">
+        {SELF_TIMER_OPTIONS.map(seconds => (
+          <button
+            key={seconds}
+            onClick={() => onChange({ timerSeconds: seconds })}
+            aria-pressed={settings.timerSeconds === seconds}
+            className={`flex-1 py-1 rounded text-xs font-semibold transition-colors ${settings.timerSeconds === seconds ? 'bg-pink-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            {seconds === 0 ? 'Off' : `${seconds}s`}
+          </button>
+        ))}
+      </div>
+    </fieldset>
+    <fieldset>
+      <legend className="text-xs font-medium text-gray-300">Burst</legend>
+      <div className="flex gap-1 mt-1">
+        {BURST_OPTIONS.map(count => (
+          <button
+            key={count}
+            onClick={() => onChange({ burstCount: count })}
+            aria-pressed={settings.burstCount === count}
+            className={`flex-1 py-1 rounded text-xs font-semibold transition-colors ${settings.burstCount === count ? 'bg-pink-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            {count === 1 ? 'Off' : `${count}`}
+          </button>
+        ))}
+      </div>
+    </fieldset>
+  </div>
+);
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// How long a failed capture is reported before the message clears itself.
+const CAPTURE_ERROR_DURATION_MS = 4000;
+
 const LiveTryOn: React.FC<LiveTryOnProps> = ({ onImageAdd }) => {
+  // A camera failure, which blocks capturing until the camera starts again.
   const [error, setError] = useState<string | null>(null);
+  // A single failed capture; the camera keeps working.
+  const [captureError, setCaptureError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<CameraSettings>(() => normalizeCameraSettings(loadCameraSettingsFromStorage()));
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [actualSize, setActualSize] = useState<string | null>(null);
+  // Seconds left on the self-timer, or null when it is not running.
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [isBursting, setIsBursting] = useState(false);
+  const [burstFrames, setBurstFrames] = useState<BurstFrame[] | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // Each camera start gets a number, so a slow start that has been superseded can tell.
+  const startCountRef = useRef(0);
+  // Lets a burst that finishes after the view has closed release its frames instead of showing them.
+  const isMountedRef = useRef(false);
+  // Only these two settings need the camera restarted.
+  const { deviceId, resolution } = settings;
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => { isMountedRef.current = false; };
+  }, []);
+
+  useEffect(() => {
+    if (!captureError) return;
+    const timeout = setTimeout(() => setCaptureError(null), CAPTURE_ERROR_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [captureError]);
+
+  const updateSettings = useCallback((changes: Partial<CameraSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  useEffect(() => {
+    saveCameraSettingsToStorage(settings);
+  }, [settings]);
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      setDevices(all.filter(device => device.kind === 'videoinput' && device.deviceId));
+    } catch (err) {
+      console.error("Could not list cameras: ", err);
+    }
+  }, []);
 
   const stopCamera = useCallback(() => {
     if (videoRef.current) {
@@ -26,21 +158,29 @@ const LiveTryOn: React.FC<LiveTryOnProps> = ({ onImageAdd }) => {
   const startCamera = useCallback(async () => {
     // Always stop any existing stream before starting a new one.
     stopCamera();
+    const startNumber = ++startCountRef.current;
     try {
       setError(null);
-      const constraints = {
-        video: {
-          facingMode: 'user',
-          width: { ideal: 1920 },
-          height: { ideal: 1080 },
-        },
-      };
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
+      const stream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints({ deviceId, resolution }) });
+      if (startNumber !== startCountRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       streamRef.current = stream;
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
       }
+      const { width, height } = stream.getVideoTracks()[0]?.getSettings() || {};
+      setActualSize(width && height ? `${width}×${height}` : null);
+      // Browsers only reveal camera names once access has been granted.
+      refreshDevices();
     } catch (err) {
+      if (startNumber !== startCountRef.current) return;
+      // A remembered camera may have been unplugged since; fall back to the default one.
+      if (deviceId && err instanceof DOMException && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError')) {
+        updateSettings({ deviceId: null });
+        return;
+      }
       console.error("Error accessing camera: ", err);
       let errorMessage = "Could not access camera. Please check permissions and try reloading.";
       if (err instanceof DOMException) {
@@ -55,65 +195,213 @@ const LiveTryOn: React.FC<LiveTryOnProps> = ({ onImageAdd }) => {
       }
       setError(errorMessage);
     }
-  }, [stopCamera]);
+  }, [stopCamera, refreshDevices, updateSettings, deviceId, resolution]);
 
   useEffect(() => {
     startCamera();
     // The returned function is the cleanup function that runs when the component unmounts.
-    return stopCamera;
+    // Bumping the count also stops a start that is still waiting for permission.
+    return () => {
+      startCountRef.current++;
+      stopCamera();
+    };
   }, [startCamera, stopCamera]);
 
-  const handleCapture = useCallback(() => {
+  useEffect(() => {
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  const captureFrame = useCallback(async (): Promise<UploadedImage | null> => {
     const video = videoRef.current;
     const canvas = canvasRef.current;
-    if (video && canvas) {
-      const context = canvas.getContext('2d');
-      if (context) {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        // Flip horizontally for a mirror effect
-        context.translate(canvas.width, 0);
-        context.scale(-1, 1);
-        context.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-        
-        const dataUrl = canvas.toDataURL('image/png');
-        const base64String = dataUrl.split(',')[1];
-
-        onImageAdd({
-          base64: base64String,
-          mimeType: 'image/png',
-          url: dataUrl, // We can reuse the dataUrl, no need for blob URL here
-          name: `live-capture-${Date.now()}.png`
-        });
+    if (!video || !canvas || !video.videoWidth) return null;
+    return captureVideoFrame(video, canvas, settings.mirror);
+  }, [settings.mirror]);
+
+  const runCapture = useCallback(async () => {
+    if (settings.burstCount === 1) {
+      try {
+        const image = await captureFrame();
+        if (image) onImageAdd(image);
+      } catch (err) {
+        console.error("Capture failed: ", err);
+        setCaptureError("The photo could not be captured. Please try again.");
+      }
+      return;
+    }
+    setIsBursting(true);
+    const frames: UploadedImage[] = [];
+    try {
+      for (let index = 0; index < settings.burstCount; index++) {
+        if (index > 0) await wait(BURST_INTERVAL_MS);
+        // The camera may have been closed mid-burst, e.g. by switching cameras.
+        if (!streamRef.current) break;
+        const image = await captureFrame();
+        if (image) frames.push({ ...image, name: `live-capture-${Date.now()}-${index + 1}.jpg` });
+      }
+      const scored = await Promise.all(frames.map(async image => ({
+        image,
+        sharpness: measureSharpness(await loadImageElement(image.url)),
+        isKept: false,
+      })));
+      if (!isMountedRef.current) {
+        frames.forEach(revokeImageUrls);
+        return;
       }
+      // The sharpest frame is ticked to start with; the user can keep any others.
+      const sharpest = scored.reduce((best, frame, index) => frame.sharpness > scored[best].sharpness ? index : best, 0);
+      if (scored.length > 0) {
+        setBurstFrames(scored.map((frame, index) => ({ ...frame, isKept: index === sharpest })));
+      }
+    } catch (err) {
+      console.error("Burst capture failed: ", err);
+      frames.forEach(revokeImageUrls);
+      if (isMountedRef.current) setCaptureError("The burst could not be captured. Please try again.");
+    } finally {
+      if (isMountedRef.current) setIsBursting(false);
     }
-  }, [onImageAdd]);
+  }, [captureFrame, onImageAdd, settings.burstCount]);
+
+  // The self-timer ticks once a second and captures when it reaches zero.
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      runCapture();
+      return;
+    }
+    const timeout = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [countdown, runCapture]);
+
+  const handleCapture = useCallback(() => {
+    setIsSettingsOpen(false);
+    if (settings.timerSeconds > 0) {
+      setCountdown(settings.timerSeconds);
+    } else {
+      runCapture();
+    }
+  }, [runCapture, settings.timerSeconds]);
+
+  const toggleFrame = (index: number) => {
+    setBurstFrames(prev => prev && prev.map((frame, frameIndex) => frameIndex === index ? { ...frame, isKept: !frame.isKept } : frame));
+  };
+
+  const handleKeepFrames = () => {
+    // The sharpest kept frame goes in last, so it ends up selected in the workspace.
+    (burstFrames || [])
+      .filter(frame => frame.isKept)
+      .sort((a, b) => a.sharpness - b.sharpness)
+      .forEach(frame => onImageAdd(frame.image));
+    (burstFrames || []).filter(frame => !frame.isKept).forEach(frame => revokeImageUrls(frame.image));
+    setBurstFrames(null);
+  };
+
+  const handleDiscardFrames = () => {
+    (burstFrames || []).forEach(frame => revokeImageUrls(frame.image));
+    setBurstFrames(null);
+  };
+
+  // Frames still waiting for a choice when the camera view closes are released with it.
+  const burstFramesRef = useRef<BurstFrame[] | null>(null);
+  burstFramesRef.current = burstFrames;
+  useEffect(() => () => burstFramesRef.current?.forEach(frame => revokeImageUrls(frame.image)), []);
+
+  const keptCount = (burstFrames || []).filter(frame => frame.isKept).length;
+  const bestSharpness = Math.max(...(burstFrames || []).map(frame => frame.sharpness));
+  const captureLabel = settings.burstCount > 1 ? `Capture ${settings.burstCount} Frames` : 'Capture Pose';
 
   return (
     <div className="w-full h-full bg-gray-900 rounded-lg overflow-hidden flex flex-col justify-center items-center relative text-white">
       <canvas ref={canvasRef} className="hidden" />
 
-      <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover transform -scale-x-100" />
-      
+      <video ref={videoRef} autoPlay playsInline muted className={`w-full h-full object-cover transform ${settings.mirror ? '-scale-x-100' : ''}`} />
+
+      <button
+        onClick={() => setIsSettingsOpen(open => !open)}
+        className="absolute top-3 right-3 z-10 p-2 rounded-full bg-black bg-opacity-50 hover:bg-opacity-70 transition-colors"
+        aria-label="Camera settings"
+        aria-expanded={isSettingsOpen}
+      >
+        <SettingsIcon className="w-5 h-5" />
+      </button>
+      {isSettingsOpen && (
+        <CameraSettingsPanel settings={settings} devices={devices} actualSize={actualSize} onChange={updateSettings} onClose={() => setIsSettingsOpen(false)} />
+      )}
+
+      {countdown !== null && (
+        <div className="absolute inset-0 flex flex-col justify-center items-center bg-black bg-opacity-20 pointer-events-none" aria-live="assertive">
+          <span className="text-8xl font-bold drop-shadow-lg">{countdown}</span>
+        </div>
+      )}
+
       {error && (
         <div className="absolute inset-0 bg-black bg-opacity-70 flex flex-col justify-center items-center p-4">
             <p className="text-red-400 text-center">{error}</p>
+            {/* Another camera can be picked from the settings button, which stays above this overlay. */}
+            <button onClick={startCamera} className="mt-4 py-2 px-4 rounded-lg bg-gray-700 hover:bg-gray-600 text-sm font-semibold transition-colors">
+              Try again
+            </button>
+        </div>
+      )}
+
+      {burstFrames && (
+        <div className="absolute inset-0 bg-black bg-opacity-85 flex flex-col p-4 z-20" role="dialog" aria-label="Choose frames to keep">
+          <p className="text-sm font-semibold mb-1">Pick the frames to keep</p>
+          <p className="text-xs text-gray-400 mb-3">The sharpest frame is ticked for you.</p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 overflow-y-auto flex-grow content-start">
+            {burstFrames.map((frame, index) => (
+              <button
+                key={frame.image.name}
+                onClick={() => toggleFrame(index)}
+                aria-pressed={frame.isKept}
+                className={`relative rounded-md overflow-hidden border-4 transition-colors ${frame.isKept ? 'border-pink-500' : 'border-transparent opacity-70 hover:opacity-100'}`}
+              >
+                <img src={frame.image.url} alt={`Frame ${index + 1}`} className="w-full aspect-[3/4] object-cover" />
+                {frame.sharpness === bestSharpness && (
+                  <span className="absolute top-1 left-1 bg-pink-600 text-white text-[10px] font-semibold px-1.5 py-0.5 rounded">Sharpest</span>
+                )}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-3">
+            <button onClick={handleDiscardFrames} className="flex-1 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-sm font-semibold transition-colors">Discard all</button>
+            <button onClick={handleKeepFrames} disabled={keptCount === 0} className="flex-1 py-2 rounded-lg bg-pink-600 hover:bg-pink-700 text-sm font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+              Add {keptCount} to workspace
+            </button>
+          </div>
         </div>
       )}
 
+      {captureError && (
+        <p className="absolute bottom-24 left-1/2 -translate-x-1/2 max-w-xs bg-black bg-opacity-70 text-red-300 text-sm text-center px-3 py-2 rounded-lg" role="alert">
+          {captureError}
+        </p>
+      )}
+
       <div className="absolute bottom-5 left-1/2 -translate-x-1/2 w-full px-4 flex justify-center">
-         <button
+        {countdown !== null ? (
+          <button
+            onClick={() => setCountdown(null)}
+            className="h-14 px-6 bg-white bg-opacity-90 text-stone-700 font-semibold rounded-lg shadow-lg hover:bg-opacity-100 transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-white"
+          >
+            Cancel timer
+          </button>
+        ) : (
+          <button
             onClick={handleCapture}
-            className="h-14 px-6 bg-white bg-opacity-90 text-pink-700 font-semibold rounded-lg shadow-lg flex items-center justify-center space-x-2 hover:bg-opacity-100 transition-all transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-white"
+            className="h-14 px-6 bg-white bg-opacity-90 text-pink-700 font-semibold rounded-lg shadow-lg flex items-center justify-center space-x-2 hover:bg-opacity-100 transition-all transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-white disabled:opacity-60 disabled:hover:scale-100"
             aria-label="Capture your pose"
-            disabled={!!error}
+            disabled={!!error || isBursting}
           >
             <CameraIcon className="w-6 h-6"/>
-            <span>Capture Pose</span>
+            <span>{isBursting ? 'Capturing...' : settings.timerSeconds > 0 ? `${captureLabel} in ${settings.timerSeconds}s` : captureLabel}</span>
           </button>
+        )}
       </div>
     </div>
   );
 };
 
-export default LiveTryOn;
\ No newline at end of file
+export default LiveTryOn;
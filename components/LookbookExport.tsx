@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { LookbookLook, createContactSheet, createLookbookPdf } from '../utils/lookbook';
+import { downloadBlob } from '../utils/download';
+
+interface LookbookExportProps {
+  // Every generated image in the workspace, newest first, with its source photo and garments filled in.
+  candidates: Omit<LookbookLook, 'caption'>[];
+  onClose: () => void;
+}
+
+// Lets the user pick results, caption them and export them as a lookbook PDF or a contact-sheet PNG.
+// Everything is drawn in the browser; nothing is uploaded.
+const LookbookExport: React.FC<LookbookExportProps> = ({ candidates, onClose }) => {
+  const [title, setTitle] = useState('Lookbook');
+  const [subtitle, setSubtitle] = useState('');
+  // Keyed by image URL, which is unique among workspace images.
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [captions, setCaptions] = useState<Record<string, string>>({});
+  const [exporting, setExporting] = useState<'pdf' | 'png' | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Oldest first reads naturally as a session's progression.
+  const ordered = [...candidates].reverse();
+  const looks: LookbookLook[] = ordered
+    .filter(candidate => !excluded.has(candidate.image.url))
+    .map(candidate => ({ ...candidate, caption: (captions[candidate.image.url] || '').trim() }));
+
+  const toggle = (url: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(url)) next.delete(url); else next.add(url);
+      return next;
+    });
+  };
+
+  const handleExport = async (format: 'pdf' | 'png') => {
+    setExporting(format);
+    setExportError(null);
+    const options = { title: title.trim() || 'Lookbook', subtitle: subtitle.trim() };
+    const slug = (options.subtitle || options.title).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'lookbook';
+    const date = new Date().toISOString().slice(0, 10);
+    try {
+      if (format === 'pdf') {
+        downloadBlob(await createLookbookPdf(looks, options), `${slug}-${date}.pdf`);
+      } else {
+        downloadBlob(await createContactSheet(looks, options), `${slug}-contact-sheet-${date}.png`);
+      }
+    } catch (err) {
+      console.error("Lookbook export failed:", err);
+      setExportError("The lookbook could not be created. Try exporting fewer looks.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const inputClassName = "mt-1 w-full p-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-pink-500 focus:border-pink-500";
+  const exportButtonClassName = "flex-1 py-2 px-4 bg-pink-600 text-white font-semibold rounded-lg shadow-md hover:bg-pink-700 transition-colors text-sm disabled:bg-gray-400 disabled:cursor-not-allowed";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 animate-fade-in"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Export lookbook"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-stone-700">Export Lookbook</h3>
+          <button onClick={onClose} className="text-sm font-semibold text-stone-600 hover:text-stone-900">Close</button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Title
+            <input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClassName} />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Client (optional)
+            <input value={subtitle} onChange={(e) => setSubtitle(e.target.value)} className={inputClassName} placeholder="e.g. Priya Sharma" />
+          </label>
+        </div>
+
+        <ul className="space-y-2 mb-4">
+          {ordered.map(candidate => {
+            const { url } = candidate.image;
+            const isIncluded = !excluded.has(url);
+            return (
+              <li key={url} className={`flex gap-3 p-2 rounded-md border ${isIncluded ? 'border-pink-200 bg-pink-50' : 'border-gray-200 opacity-60'}`}>
+                <input type="checkbox" checked={isIncluded} onChange={() => toggle(url)} className="mt-1 rounded text-pink-600 focus:ring-pink-500" aria-label={`Include ${candidate.image.name}`} />
+                <img src={candidate.image.thumbnailUrl || url} alt={candidate.image.name} className="w-16 h-20 object-cover rounded" />
+                <div className="flex-grow min-w-0">
+                  <p className="text-xs text-stone-500 truncate mb-1">
+                    {candidate.garments.length > 0 ? candidate.garments.map(garment => garment.name).join(' + ') : candidate.image.name}
+                  </p>
+                  <textarea
+                    value={captions[url] || ''}
+                    onChange={(e) => setCaptions(prev => ({ ...prev, [url]: e.target.value }))}
+                    disabled={!isIncluded}
+                    rows={2}
+                    className="w-full p-1 border border-gray-300 rounded-md text-sm focus:ring-pink-500 focus:border-pink-500"
+                    placeholder="Caption (optional)"
+                  />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {exportError && <p className="text-sm text-red-600 mb-2" role="alert">{exportError}</p>}
+        <div className="flex gap-2">
+          <button onClick={() => handleExport('pdf')} disabled={looks.length === 0 || exporting !== null} className={exportButtonClassName}>
+            {exporting === 'pdf' ? 'Creating PDF...' : `Download PDF (${looks.length + 1} pages)`}
+          </button>
+          <button onClick={() => handleExport('png')} disabled={looks.length === 0 || exporting !== null} className={exportButtonClassName}>
+            {exporting === 'png' ? 'Creating image...' : 'Download Contact Sheet'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LookbookExport;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { FilterItem, Provenance, UploadedImage } from '../types';
+import { getCategoryPath } from '../taxonomy';
+import { DownloadIcon } from './icons';
+
+interface ProvenanceDrawerProps {
+  image: UploadedImage & { provenance: Provenance };
+  // Looks an item up in the catalogues as they are now, to show its picture or that it is gone.
+  findItem: (itemId: string) => FilterItem | undefined;
+  onDownload: (image: UploadedImage) => void;
+  onClose: () => void;
+}
+
+const PRESENTATION_LABELS: Record<NonNullable<Provenance['presentation']>, string> = {
+  female: 'Female',
+  male: 'Male',
+  neutral: 'Not specified',
+};
+
+const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const KIND_TITLES: Record<Provenance['kind'], string> = {
+  'try-on': 'Try-On Result',
+  edit: 'Edited Image',
+  video: 'Generated Video',
+};
+
+// Shows what produced a generated image: the garments, the settings and the source photo.
+const ProvenanceDrawer: React.FC<ProvenanceDrawerProps> = ({ image, findItem, onDownload, onClose }) => {
+  const { provenance } = image;
+  const rows: [string, string][] = [
+    ['Created', new Date(provenance.createdAt).toLocaleString()],
+    ['Took', formatDuration(provenance.durationMs)],
+    ['Model', `${provenance.model} (${provenance.provider})`],
+    ['Prompt template', `v${provenance.promptTemplateVersion}`],
+    ['Source photo', provenance.source.name],
+    ['Source SHA-256', provenance.source.sha256],
+  ];
+  if (provenance.presentation) {
+    rows.splice(2, 0, ['Person', PRESENTATION_LABELS[provenance.presentation]]);
+  }
+  if (provenance.cached) {
+    rows.splice(2, 0, ['Served from', 'Result cache']);
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex justify-end" onClick={onClose}>
+      <aside
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white w-full max-w-sm h-full overflow-y-auto shadow-2xl p-5 animate-fade-in"
+        aria-label={`Details of ${image.name}`}
+      >
+        <div className="flex justify-between items-start gap-2 mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-stone-700">{KIND_TITLES[provenance.kind]}</h3>
+            <p className="text-xs text-stone-500 break-all">{image.name}</p>
+          </div>
+          <button onClick={onClose} className="text-sm font-semibold text-stone-600 hover:text-stone-900">Close</button>
+        </div>
+
+        <img src={image.thumbnailUrl || image.url} alt={image.name} className="w-full max-h-64 object-contain bg-stone-100 rounded-md mb-4" />
+
+        {provenance.items && (
+          <>
+            <h4 className="text-sm font-bold text-stone-700 mb-2">Garments</h4>
+            <ul className="space-y-2 mb-4">
+              {provenance.items.map(item => {
+                const current = findItem(item.id);
+                return (
+                  <li key={item.id} className="flex items-center gap-2">
+                    {current ? (
+                      <img src={current.image.thumbnailUrl || current.image.url} alt={current.name} className="w-10 h-12 object-cover rounded" />
+                    ) : (
+                      <div className="w-10 h-12 rounded bg-stone-100 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0 text-sm">
+                      <p className="font-semibold text-stone-700 truncate">{item.name}</p>
+                      <p className="text-xs text-stone-500">
+                        {getCategoryPath(item.category)}{item.wornOver ? ` · worn over ${item.wornOver}` : ''}
+                      </p>
+                      <p className="text-[10px] text-stone-400 break-all">
+                        {item.id}{current ? '' : ' · no longer in the catalogue'}
+                      </p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+
+        {provenance.prompt && (
+          <>
+            <h4 className="text-sm font-bold text-stone-700 mb-1">Instruction</h4>
+            <p className="text-sm text-stone-600 mb-4 whitespace-pre-wrap">{provenance.prompt}</p>
+          </>
+        )}
+
+        <dl className="text-sm grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 mb-4">
+          {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-stone-500">{label}</dt>
+              <dd className="text-stone-700 break-all">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+
+        <button onClick={() => onDownload(image)} className="w-full flex items-center justify-center gap-2 py-2 px-4 bg-pink-600 text-white font-semibold rounded-lg shadow-md hover:bg-pink-700 transition-colors text-sm">
+          <DownloadIcon className="w-4 h-4" /> Download with details
+        </button>
+        <p className="text-xs text-stone-400 mt-2 text-center">These details are saved inside the downloaded PNG.</p>
+      </aside>
+    </div>
+  );
+};
+
+export default ProvenanceDrawer;
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { RequestJob } from '../types';
+
+interface RequestQueueProps {
+  jobs: RequestJob[];
+  onClearFailed: () => void;
+}
+
+const STATUS_STYLES: Record<RequestJob['status'], string> = {
+  queued: 'bg-gray-100 text-gray-600',
+  running: 'bg-pink-100 text-pink-700',
+  retrying: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+// Shows the AI requests waiting in, or recently failed out of, the shared request scheduler.
+const RequestQueue: React.FC<RequestQueueProps> = ({ jobs, onClearFailed }) => {
+  const [now, setNow] = useState(Date.now());
+  const isRetrying = jobs.some(job => job.status === 'retrying');
+
+  // Tick once a second while a retry countdown is visible.
+  useEffect(() => {
+    if (!isRetrying) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRetrying]);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const hasFailed = jobs.some(job => job.status === 'failed');
+
+  const describe = (job: RequestJob) => {
+    if (job.status === 'retrying' && job.nextRetryAt) {
+      return `Retrying in ${Math.max(0, Math.ceil((job.nextRetryAt - now) / 1000))}s`;
+    }
+    if (job.status === 'running' && job.attempt > 1) {
+      return `Running (attempt ${job.attempt})`;
+    }
+    return job.status.charAt(0).toUpperCase() + job.status.slice(1);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md animate-fade-in">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-bold text-stone-700">AI Requests</h3>
+        {hasFailed && (
+          <button onClick={onClearFailed} className="text-xs text-red-600 hover:text-red-800 font-semibold transition-colors">
+            Clear failed
+          </button>
+        )}
+      </div>
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {jobs.map(job => (
+          <li key={job.id} className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate text-stone-700" title={job.error || job.label}>{job.label}</span>
+            <span className={`whitespace-nowrap px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[job.status]}`}>{describe(job)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RequestQueue;
@@ -1,18 +1,89 @@
-import React from 'react';
-import { LoadingSpinner, PlaceholderLookIcon, ErrorIcon } from './icons';
+import React, { useEffect, useState } from 'react';
+import { LoadingSpinner, PlaceholderLookIcon, ErrorIcon, RetryIcon } from './icons';
+import { ServiceError, ServiceErrorKind } from '../services/errors';
+import { VIDEO_ESTIMATED_DURATION_MS } from '../services/videoJobs';
+import { GeneratedVideo, UploadedImage, VideoJob } from '../types';
+import { summarizeProvenance } from '../utils/provenance';
+import ComparisonViewer from './ComparisonViewer';
 
 interface ResultDisplayProps {
   isLoading: boolean;
-  error: string | null;
-  generatedImages: string[];
-  generatedVideoUrl: string | null;
+  error: ServiceError | null;
+  // The results' workspace items, which carry their provenance.
+  generatedImages: UploadedImage[];
+  // The photo the results were generated from, when known; results restored from an older session have none.
+  sourceImageUrl: string | null;
+  onShowDetails: (image: UploadedImage) => void;
+  onDownload: (image: UploadedImage) => void;
+  generatedVideo: GeneratedVideo | null;
   elapsedTime: number | null;
   mode: 'try-on' | 'edit' | 'video';
+  videoJob: VideoJob | null;
+  onCancelVideo: () => void;
+  onRetry: () => void;
+  onSelectApiKey?: () => void;
 }
 
-const ResultDisplay: React.FC<ResultDisplayProps> = ({ isLoading, error, generatedImages, generatedVideoUrl, elapsedTime, mode }) => {
+type RecoveryAction = 'retry' | 'select-key' | null;
+
+// What we suggest the user does next for each kind of failure.
+const RECOVERY: Record<ServiceErrorKind, { hint: string | null; action: RecoveryAction }> = {
+  'auth': { hint: "The API key was rejected or is missing. Ask whoever runs this studio to check its key configuration.", action: 'select-key' },
+  'quota': { hint: "We retried automatically but the quota is still exhausted. Waiting a minute before trying again usually helps.", action: 'retry' },
+  'safety-blocked': { hint: "Try a clearer, well-lit photo, a different garment, or rephrase your prompt.", action: null },
+  'unavailable': { hint: "The service is having trouble right now. Your selections are kept, so you can simply try again.", action: 'retry' },
+  'no-image-returned': { hint: "Results vary between attempts, so trying again often works.", action: 'retry' },
+  'network': { hint: "Check your internet connection and that the API server is running.", action: 'retry' },
+  'cancelled': { hint: null, action: 'retry' },
+  'timeout': { hint: "Video generation can be slow when the service is busy.", action: 'retry' },
+  'invalid-request': { hint: null, action: null },
+  'unknown': { hint: null, action: 'retry' },
+};
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds.toString().padStart(2, '0')}s` : `${seconds}s`;
+};
+
+// Elapsed time and an estimate-based progress bar for a running Veo job.
+const VideoJobProgress: React.FC<{ job: VideoJob; onCancel: () => void }> = ({ job, onCancel }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const elapsed = now - job.startedAt;
+  const remaining = VIDEO_ESTIMATED_DURATION_MS - elapsed;
+  // Never show a full bar before the job is actually done.
+  const progress = Math.min(0.95, elapsed / VIDEO_ESTIMATED_DURATION_MS);
+
+  return (
+    <div className="w-full max-w-md mt-6">
+      <div className="w-full h-2 bg-stone-200 rounded-full overflow-hidden">
+        <div className="h-full bg-pink-500 transition-all duration-1000" style={{ width: `${Math.round(progress * 100)}%` }} />
+      </div>
+      <div className="flex justify-between text-sm text-gray-500 mt-2">
+        <span>Elapsed: {formatDuration(elapsed)}</span>
+        <span>{remaining > 0 ? `About ${formatDuration(remaining)} left` : 'Taking longer than usual...'}</span>
+      </div>
+      <p className="text-xs text-gray-400 mt-1">Stops waiting after {formatDuration(job.maxWaitMs)}. You can reload the page; the job will resume.</p>
+      {/* The video API has no way to cancel an operation, so the job keeps running (and is billed) upstream. */}
+      <button onClick={onCancel} className="mt-4 py-2 px-6 bg-gray-700 text-white font-semibold rounded-lg shadow-md hover:bg-gray-600 transition-colors text-sm">
+        Stop Waiting
+      </button>
+      <p className="text-xs text-gray-400 mt-1">The video keeps rendering on the service; this only stops waiting for it here.</p>
+    </div>
+  );
+};
+
+const ResultDisplay: React.FC<ResultDisplayProps> = ({ isLoading, error, generatedImages, sourceImageUrl, onShowDetails, onDownload, generatedVideo, elapsedTime, mode, videoJob, onCancelVideo, onRetry, onSelectApiKey }) => {
+  const [comparingIndex, setComparingIndex] = useState<number | null>(null);
   const hasImageResults = generatedImages.length > 0;
-  const hasVideoResult = !!generatedVideoUrl;
+  const hasVideoResult = !!generatedVideo;
 
   if (isLoading && !hasImageResults && !hasVideoResult) {
     const loadingText = mode === 'video' 
@@ -27,16 +98,31 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ isLoading, error, generat
         <LoadingSpinner />
         <p className="mt-4 text-lg font-semibold text-stone-700">{loadingText}</p>
         <p className="text-gray-500">{subText}</p>
+        {mode === 'video' && videoJob && <VideoJobProgress job={videoJob} onCancel={onCancelVideo} />}
       </div>
     );
   }
 
   if (error) {
+    const { hint, action } = RECOVERY[error.kind];
+    const isCancelled = error.kind === 'cancelled';
     return (
       <div className="w-full h-full flex flex-col justify-center items-center text-center p-4 bg-red-50 rounded-lg border border-red-200 min-h-[400px]">
         <ErrorIcon />
-        <p className="mt-4 text-lg font-semibold text-red-700">Oops! Something went wrong.</p>
-        <p className="text-red-600">{error}</p>
+        <p className="mt-4 text-lg font-semibold text-red-700">{isCancelled ? 'Generation cancelled.' : 'Oops! Something went wrong.'}</p>
+        <p className="text-red-600">{error.message}</p>
+        {error.detail && <p className="text-xs text-stone-500 mt-1 max-w-md break-words">{error.detail}</p>}
+        {hint && <p className="text-sm text-stone-600 mt-2 max-w-md">{hint}</p>}
+        {action === 'retry' && (
+          <button onClick={onRetry} className="mt-4 py-2 px-6 bg-pink-600 text-white font-semibold rounded-lg shadow-md hover:bg-pink-700 transition-colors text-sm flex items-center gap-2">
+            <RetryIcon /> {isCancelled ? 'Start Again' : 'Try Again'}
+          </button>
+        )}
+        {action === 'select-key' && onSelectApiKey && (
+          <button onClick={onSelectApiKey} className="mt-4 py-2 px-6 bg-pink-600 text-white font-semibold rounded-lg shadow-md hover:bg-pink-700 transition-colors text-sm">
+            Select API Key
+          </button>
+        )}
       </div>
     );
   }
@@ -46,13 +132,18 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ isLoading, error, generat
       <div className="w-full h-full flex flex-col items-center animate-fade-in">
         <h3 className="text-xl font-bold text-stone-700 mb-4">Generated Video</h3>
         <video 
-          key={generatedVideoUrl}
-          src={generatedVideoUrl} 
+          key={generatedVideo.url}
+          src={generatedVideo.url} 
           controls 
           autoPlay
           loop
           className="w-full max-w-md rounded-lg shadow-2xl bg-stone-200"
         />
+        {generatedVideo.provenance && (
+          <p className="text-xs text-stone-500 mt-2 max-w-md text-center break-words">
+            {summarizeProvenance(generatedVideo.provenance)} · {generatedVideo.provenance.model} · {new Date(generatedVideo.provenance.createdAt).toLocaleString()}
+          </p>
+        )}
         {elapsedTime !== null && !isLoading && (
           <p className="text-sm text-gray-500 mt-6">
               ✨ Video generated in {elapsedTime.toFixed(2)} seconds
@@ -64,8 +155,9 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ isLoading, error, generat
 
 
   if (hasImageResults) {
-    const resultTitle = mode === 'edit' ? 'Edited Image' : `Look #${generatedImages.length}`;
     const downloadPrefix = mode === 'edit' ? 'edited-image' : 'your-new-style';
+    const resultLabels = generatedImages.map((_, index) => mode === 'edit' ? 'Edited Image' : `Look #${index + 1}`);
+    const resultSrcs = generatedImages.map(image => image.url);
 
     return (
       <div className="w-full h-full flex flex-col items-center">
@@ -77,25 +169,53 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ isLoading, error, generat
         )}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 w-full">
           {generatedImages.map((image, index) => (
-            <div key={index} className="relative w-full animate-fade-in rounded-lg flex flex-col items-center">
-              <h3 className="text-lg font-bold text-stone-700 mb-2">{mode === 'edit' ? 'Edited Image' : `Look #${index + 1}`}</h3>
+            <div key={image.lineage?.id || image.url} className="relative w-full animate-fade-in rounded-lg flex flex-col items-center">
+              <h3 className="text-lg font-bold text-stone-700 mb-2">{resultLabels[index]}</h3>
               <div className="w-full aspect-[9/16] bg-stone-200 rounded-lg shadow-2xl overflow-hidden animate-shimmer">
                 <img
-                  src={`data:image/png;base64,${image}`}
+                  src={resultSrcs[index]}
                   alt={`Generated result ${index + 1}`}
                   className="w-full h-full object-contain"
                 />
               </div>
-              <a
-                href={`data:image/png;base64,${image}`}
-                download={`${downloadPrefix}-${index + 1}.png`}
-                className="mt-4 py-2 px-6 bg-pink-600 text-white font-semibold rounded-lg shadow-md hover:bg-pink-700 transition-colors text-sm"
-              >
-                Download
-              </a>
+              <div className="mt-4 flex gap-2">
+                {sourceImageUrl && (
+                  <button
+                    onClick={() => setComparingIndex(index)}
+                    className="py-2 px-6 bg-white text-pink-700 border border-pink-300 font-semibold rounded-lg shadow-md hover:bg-pink-50 transition-colors text-sm"
+                  >
+                    Compare
+                  </button>
+                )}
+                {image.provenance && (
+                  <button
+                    onClick={() => onShowDetails(image)}
+                    className="py-2 px-4 bg-white text-stone-700 border border-stone-300 font-semibold rounded-lg shadow-md hover:bg-stone-50 transition-colors text-sm"
+                  >
+                    Details
+                  </button>
+                )}
+                {/* The download embeds the provenance when the result is a PNG. */}
+                <button
+                  onClick={() => onDownload({ ...image, name: `${downloadPrefix}-${index + 1}.${image.mimeType.split('/')[1]}` })}
+                  className="py-2 px-6 bg-pink-600 text-white font-semibold rounded-lg shadow-md hover:bg-pink-700 transition-colors text-sm"
+                >
+                  Download
+                </button>
+              </div>
             </div>
           ))}
         </div>
+        {sourceImageUrl && comparingIndex !== null && comparingIndex < generatedImages.length && (
+          <ComparisonViewer
+            sourceSrc={sourceImageUrl}
+            resultSrcs={resultSrcs}
+            resultLabels={resultLabels}
+            index={comparingIndex}
+            onIndexChange={setComparingIndex}
+            onClose={() => setComparingIndex(null)}
+          />
+        )}
         {elapsedTime !== null && !isLoading && (
           <p className="text-sm text-gray-500 mt-6">
             ✨ {generatedImages.length} {generatedImages.length > 1 ? 'results' : 'result'} created in {elapsedTime.toFixed(2)} seconds
@@ -1,15 +1,17 @@
 import React from 'react';
 import { FilterItem } from '../types';
-import { CheckCircleIcon } from './icons';
+import { CheckCircleIcon, EditIcon, TrashIcon } from './icons';
 
 interface ItemGridProps {
   filterItems: FilterItem[];
   selectedFilterItems: FilterItem[];
   onSelectFilterItem: (item: FilterItem) => void;
+  onEditFilterItem?: (item: FilterItem) => void;
+  onDeleteFilterItem?: (item: FilterItem) => void;
 }
 
 // This component is now a simple grid for displaying and selecting items.
-const ItemGrid: React.FC<ItemGridProps> = ({ filterItems, selectedFilterItems, onSelectFilterItem }) => {
+const ItemGrid: React.FC<ItemGridProps> = ({ filterItems, selectedFilterItems, onSelectFilterItem, onEditFilterItem, onDeleteFilterItem }) => {
   return (
     <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 min-h-[10rem]">
       {filterItems.map((item) => {
@@ -26,15 +28,42 @@ const ItemGrid: React.FC<ItemGridProps> = ({ filterItems, selectedFilterItems, o
             tabIndex={0}
             aria-pressed={isSelected}
             aria-label={`Select ${item.name}`}
+            title={item.attributes?.description || item.name}
           >
-            <img src={item.image.url} alt={item.name} className="w-full h-full object-cover" />
+            <img src={item.image.thumbnailUrl || item.image.url} alt={item.name} className="w-full h-full object-cover" />
             {isSelected && (
               <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center transition-opacity duration-300">
                   <CheckCircleIcon className="w-10 h-10 text-white opacity-90" />
               </div>
             )}
+            {onEditFilterItem && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onEditFilterItem(item); }}
+                className="absolute top-1 right-1 p-1.5 bg-black bg-opacity-50 rounded-full text-white hover:bg-opacity-75 transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
+                aria-label={`Edit ${item.name}`}
+              >
+                <EditIcon className="w-4 h-4" />
+              </button>
+            )}
+            {onDeleteFilterItem && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onDeleteFilterItem(item); }}
+                className="absolute top-1 left-1 p-1.5 bg-black bg-opacity-50 rounded-full text-white hover:bg-red-600 transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
+                aria-label={`Delete ${item.name}`}
+              >
+                <TrashIcon />
+              </button>
+            )}
             <div className="absolute bottom-0 left-0 right-0 p-1 bg-black bg-opacity-50">
               <p className="text-white text-xs text-center truncate" title={item.name}>{item.name}</p>
+              {item.attributes && (
+                <div className="flex items-center justify-center gap-1 mt-0.5">
+                  {item.attributes.dominantColors.slice(0, 3).map(color => (
+                    <span key={color} className="w-2.5 h-2.5 rounded-full border border-white" style={{ backgroundColor: color }} title={color} />
+                  ))}
+                  <span className="text-white text-[10px] truncate">{item.attributes.formality}</span>
+                </div>
+              )}
             </div>
           </div>
         )
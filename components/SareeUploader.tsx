@@ -1,18 +1,28 @@
 import React, { useState, useRef, useCallback } from 'react';
-import { ClassifyingItem } from '../types';
+import { ClassifyingItem, CleanupReview, DuplicateResolution } from '../types';
 import { PlusIcon, LoadingSpinner, ErrorIcon } from './icons';
+import { validateImageFile, MAX_INGEST_FILE_SIZE_MB } from '../utils/imageIngest';
 
-const MAX_FILE_SIZE_MB = 5;
-const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
+const CLASSIFYING_STATUS_TEXT: Partial<Record<ClassifyingItem['status'], string>> = {
+  queued: 'Queued...',
+  running: 'Classifying...',
+  retrying: 'Busy, retrying...',
+};
 
 interface StyleUploaderProps {
   onStyleUpload: (files: File[]) => void;
+  onResolveDuplicate: (uploadId: string, resolution: DuplicateResolution) => void;
   classifyingItems: ClassifyingItem[];
+  cleanupReviews: CleanupReview[];
+  onResolveCleanup: (review: CleanupReview, keepCleaned: boolean) => void;
+  isCleanupEnabled: boolean;
+  onCleanupToggle: (enabled: boolean) => void;
 }
 
 // This component is now the centralized uploader for all new styles.
-// It handles file selection, drag & drop, and displays items being classified.
-const StyleUploader: React.FC<StyleUploaderProps> = ({ onStyleUpload, classifyingItems }) => {
+// It handles file selection, drag & drop, and displays items being classified
+// and background cleanups waiting to be compared.
+const StyleUploader: React.FC<StyleUploaderProps> = ({ onStyleUpload, onResolveDuplicate, classifyingItems, cleanupReviews, onResolveCleanup, isCleanupEnabled, onCleanupToggle }) => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -26,11 +36,12 @@ const StyleUploader: React.FC<StyleUploaderProps> = ({ onStyleUpload, classifyin
       return;
     }
 
-    const validSizeFiles = imageFiles.filter(file => file.size <= MAX_FILE_SIZE_BYTES);
+    // Large originals are fine: each file is shrunk as it is ingested.
+    const validSizeFiles = imageFiles.filter(file => !validateImageFile(file));
     const oversizedFilesCount = imageFiles.length - validSizeFiles.length;
 
     if (oversizedFilesCount > 0) {
-        setError(`${oversizedFilesCount} image(s) exceeded the ${MAX_FILE_SIZE_MB}MB size limit and were not added.`);
+        setError(`${oversizedFilesCount} image(s) exceeded the ${MAX_INGEST_FILE_SIZE_MB}MB size limit and were not added.`);
     }
 
     if (validSizeFiles.length > 0) {
@@ -69,6 +80,9 @@ const StyleUploader: React.FC<StyleUploaderProps> = ({ onStyleUpload, classifyin
 
   const handleUploadClick = () => fileInputRef.current?.click();
 
+  const duplicateItems = classifyingItems.filter(item => item.status === 'duplicate');
+  const pendingItems = classifyingItems.filter(item => item.status !== 'duplicate');
+
   return (
     <div className="mb-4">
       <input
@@ -95,13 +109,91 @@ const StyleUploader: React.FC<StyleUploaderProps> = ({ onStyleUpload, classifyin
             <p className="text-xs text-gray-500">Drag & drop or click to upload</p>
         </div>
       </div>
+      <label className="flex items-center gap-2 mt-2 text-xs text-stone-600 cursor-pointer">
+        <input type="checkbox" checked={isCleanupEnabled} onChange={(e) => onCleanupToggle(e.target.checked)} className="rounded text-pink-600 focus:ring-pink-500" />
+        Clean up backgrounds of new styles
+      </label>
+      {isCleanupEnabled && (
+        <p className="text-[11px] text-stone-400 mt-0.5 ml-6">Backdrops, hangers, mannequins and clutter are cut away, leaving the garment on white.</p>
+      )}
       {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+
+      {cleanupReviews.length > 0 && (
+        <div className="mt-4 bg-stone-50 border-l-4 border-pink-300 p-3 rounded-md">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-bold text-stone-700">
+              {cleanupReviews.length === 1 ? 'Background cleaned up' : `${cleanupReviews.length} backgrounds cleaned up`} — the cleaned photo is used for try-on
+            </p>
+            {cleanupReviews.length > 1 && (
+              <button onClick={() => cleanupReviews.forEach(review => onResolveCleanup(review, true))} className="text-xs font-semibold text-pink-700 hover:text-pink-900 underline">
+                Keep all
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-stone-500 mb-2">If the cutout clipped part of the garment or left something behind, using the original works just as well.</p>
+          <ul className="space-y-2">
+            {cleanupReviews.map(review => (
+              <li key={review.itemId} className="flex items-center gap-3 bg-white rounded-md p-2 shadow-sm">
+                <figure className="text-center">
+                  <img src={review.originalUrl} alt={`${review.name} before cleanup`} className="w-16 h-20 object-contain bg-stone-100 rounded" />
+                  <figcaption className="text-[10px] text-stone-500 mt-0.5">Before</figcaption>
+                </figure>
+                <figure className="text-center">
+                  <img src={review.cleanedUrl} alt={`${review.name} after cleanup`} className="w-16 h-20 object-contain bg-stone-100 rounded" />
+                  <figcaption className="text-[10px] text-stone-500 mt-0.5">After</figcaption>
+                </figure>
+                <p className="flex-grow min-w-0 text-xs text-stone-700 truncate">{review.name}</p>
+                <div className="flex flex-col sm:flex-row gap-1 text-xs font-semibold">
+                  <button onClick={() => onResolveCleanup(review, true)} className="py-1 px-2 rounded bg-pink-600 text-white hover:bg-pink-700 transition-colors">Keep cleaned</button>
+                  <button onClick={() => onResolveCleanup(review, false)} className="py-1 px-2 rounded text-stone-700 hover:bg-stone-100 transition-colors">Use original</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
       
-      {classifyingItems.length > 0 && (
+      {duplicateItems.length > 0 && (
+        <div className="mt-4 bg-amber-50 border-l-4 border-amber-400 p-3 rounded-md" role="alert">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-bold text-stone-700">
+              {duplicateItems.length === 1 ? 'This upload looks like' : `${duplicateItems.length} uploads look like`} a style you already have
+            </p>
+            {duplicateItems.length > 1 && (
+              <button onClick={() => duplicateItems.forEach(item => onResolveDuplicate(item.id, 'skip'))} className="text-xs font-semibold text-amber-800 hover:text-amber-900 underline">
+                Skip all
+              </button>
+            )}
+          </div>
+          <ul className="space-y-2">
+            {duplicateItems.map(item => (
+              <li key={item.id} className="flex items-center gap-3 bg-white rounded-md p-2 shadow-sm">
+                <img src={item.url} alt={item.name} className="w-12 h-16 object-cover rounded" />
+                <img src={item.duplicateOf?.url} alt={item.duplicateOf?.name} className="w-12 h-16 object-cover rounded opacity-80" />
+                <div className="flex-grow min-w-0">
+                  <p className="text-xs text-stone-700 truncate">{item.name}</p>
+                  <p className="text-xs text-stone-500 truncate">
+                    matches "{item.duplicateOf?.name}"{item.duplicateOf?.inCatalogue ? '' : ', which is still being added'}
+                  </p>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-1 text-xs font-semibold">
+                  <button onClick={() => onResolveDuplicate(item.id, 'skip')} className="py-1 px-2 rounded bg-pink-600 text-white hover:bg-pink-700 transition-colors">Skip</button>
+                  {item.duplicateOf?.inCatalogue && (
+                    <button onClick={() => onResolveDuplicate(item.id, 'replace')} className="py-1 px-2 rounded text-stone-700 hover:bg-stone-100 transition-colors" title="Use this photo for the existing style">Replace</button>
+                  )}
+                  <button onClick={() => onResolveDuplicate(item.id, 'keep-both')} className="py-1 px-2 rounded text-stone-700 hover:bg-stone-100 transition-colors">Keep both</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {pendingItems.length > 0 && (
         <div className="mt-4">
           <p className="text-sm font-bold text-stone-600 mb-2">Classifying new items...</p>
           <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2">
-            {classifyingItems.map(item => (
+            {pendingItems.map(item => (
               <div key={item.id} className="relative aspect-[3/4] rounded-md overflow-hidden bg-stone-200">
                 <img src={item.url} alt={item.name} className="w-full h-full object-cover" />
                 <div className="absolute inset-0 bg-black bg-opacity-60 flex flex-col items-center justify-center p-1">
@@ -113,7 +205,7 @@ const StyleUploader: React.FC<StyleUploaderProps> = ({ onStyleUpload, classifyin
                   ) : (
                     <>
                       <LoadingSpinner />
-                      <p className="text-white text-xs text-center mt-2">Classifying...</p>
+                      <p className="text-white text-xs text-center mt-2">{CLASSIFYING_STATUS_TEXT[item.status] || 'Classifying...'}</p>
                     </>
                   )}
                 </div>
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { FilterItem, SavedLook } from '../types';
+import { PlusIcon, TrashIcon } from './icons';
+
+type CatalogueData = Record<string, FilterItem[]>;
+
+interface SavedLooksProps {
+  looks: SavedLook[];
+  catalogue: CatalogueData;
+  selectionCount: number;
+  // Try-on results the new look's thumbnail can be picked from.
+  resultImages: string[];
+  onSave: (name: string, thumbnailSource: string | null) => void;
+  onApply: (look: SavedLook) => void;
+  onDelete: (look: SavedLook) => void;
+}
+
+// Lists the active wardrobe's saved looks and saves the current selection as a new one.
+const SavedLooks: React.FC<SavedLooksProps> = ({ looks, catalogue, selectionCount, resultImages, onSave, onApply, onDelete }) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [nameDraft, setNameDraft] = useState('');
+  const [thumbnailIndex, setThumbnailIndex] = useState<number | null>(null);
+
+  const itemsById = new Map<string, FilterItem>(Object.values(catalogue).flat().map((item: FilterItem) => [item.id, item]));
+
+  const startSaving = () => {
+    setNameDraft(`Look ${looks.length + 1}`);
+    setThumbnailIndex(resultImages.length > 0 ? 0 : null);
+    setIsSaving(true);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = nameDraft.trim();
+    if (!name) return;
+    onSave(name, thumbnailIndex === null ? null : resultImages[thumbnailIndex] ?? null);
+    setIsSaving(false);
+  };
+
+  if (looks.length === 0 && selectionCount === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white border border-pink-100 p-4 rounded-md mb-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold text-stone-700">Saved Looks</h3>
+        {!isSaving && (
+          <button onClick={startSaving} disabled={selectionCount === 0} className="text-sm text-pink-600 hover:text-pink-800 font-semibold flex items-center gap-1 disabled:text-gray-300 disabled:cursor-not-allowed" title={selectionCount === 0 ? 'Select some styles first' : 'Save the current selection as a look'}>
+            <PlusIcon /> Save selection
+          </button>
+        )}
+      </div>
+
+      {isSaving && (
+        <form onSubmit={handleSubmit} className="mb-4 space-y-3">
+          <div className="flex gap-2">
+            <input
+              value={nameDraft}
+              onChange={(e) => setNameDraft(e.target.value)}
+              className="flex-grow p-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-pink-500 focus:border-pink-500"
+              aria-label="Look name"
+              autoFocus
+            />
+            <button type="submit" className="py-2 px-4 bg-pink-600 text-white font-semibold rounded-lg shadow-md hover:bg-pink-700 transition-colors text-sm">Save</button>
+            <button type="button" onClick={() => setIsSaving(false)} className="py-2 px-3 text-sm font-semibold text-gray-600 rounded-lg hover:bg-gray-100 transition-colors">Cancel</button>
+          </div>
+          {resultImages.length > 0 && (
+            <div>
+              <p className="text-xs text-stone-500 mb-1">Thumbnail: pick the best try-on result</p>
+              <div className="flex gap-2 overflow-x-auto">
+                {resultImages.map((src, index) => (
+                  <button
+                    type="button"
+                    key={index}
+                    onClick={() => setThumbnailIndex(index)}
+                    className={`flex-shrink-0 w-12 h-16 rounded overflow-hidden border-2 transition-colors ${thumbnailIndex === index ? 'border-pink-500' : 'border-transparent hover:border-pink-300'}`}
+                    aria-pressed={thumbnailIndex === index}
+                    aria-label={`Use result ${index + 1} as the thumbnail`}
+                  >
+                    <img src={src} alt="" className="w-full h-full object-cover" />
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setThumbnailIndex(null)}
+                  className={`flex-shrink-0 w-12 h-16 rounded border-2 text-[10px] text-stone-500 bg-stone-50 transition-colors ${thumbnailIndex === null ? 'border-pink-500' : 'border-transparent hover:border-pink-300'}`}
+                  aria-pressed={thumbnailIndex === null}
+                >
+                  None
+                </button>
+              </div>
+            </div>
+          )}
+        </form>
+      )}
+
+      {looks.length === 0 ? (
+        <p className="text-sm text-stone-500">Save a selection to reuse it with your next client.</p>
+      ) : (
+        <ul className="space-y-2">
+          {looks.map(look => {
+            const items = look.itemIds.map(id => itemsById.get(id)).filter((item): item is FilterItem => !!item);
+            const missingCount = look.itemIds.length - items.length;
+            return (
+              <li key={look.id} className="flex items-center gap-3 p-2 rounded-md hover:bg-pink-50 transition-colors">
+                <div className="w-12 h-16 flex-shrink-0 rounded overflow-hidden bg-stone-100">
+                  {/* Without a try-on thumbnail, the look's first remaining style stands in for it. */}
+                  {look.thumbnail ? (
+                    <img src={look.thumbnail} alt={look.name} className="w-full h-full object-cover" />
+                  ) : items[0] && (
+                    <img src={items[0].image.thumbnailUrl || items[0].image.url} alt={look.name} className="w-full h-full object-cover" />
+                  )}
+                </div>
+                <div className="flex-grow min-w-0">
+                  <p className="text-sm font-semibold text-stone-700 truncate">{look.name}</p>
+                  <p className="text-xs text-stone-500 truncate" title={items.map(item => item.name).join(', ')}>
+                    {items.length === 0 ? 'All of its styles have been deleted' : `${items.length} ${items.length === 1 ? 'style' : 'styles'}`}
+                    {items.length > 0 && missingCount > 0 && <span className="text-amber-700">{`, ${missingCount} deleted`}</span>}
+                  </p>
+                </div>
+                <button onClick={() => onApply(look)} disabled={items.length === 0} className="py-1 px-3 text-sm font-semibold text-pink-700 border border-pink-300 rounded-md hover:bg-pink-100 transition-colors disabled:text-gray-300 disabled:border-gray-200 disabled:cursor-not-allowed">
+                  Apply
+                </button>
+                <button onClick={() => onDelete(look)} className="p-1 text-stone-400 hover:text-red-600 transition-colors" aria-label={`Delete look ${look.name}`} title="Delete look">
+                  <TrashIcon />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SavedLooks;
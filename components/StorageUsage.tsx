@@ -0,0 +1,44 @@
+import React from 'react';
+import { StorageEstimate } from '../utils/catalogueStore';
+
+interface StorageUsageProps {
+  estimate: StorageEstimate | null;
+  saveError: string | null;
+}
+
+// Past this share of the quota the browser may start refusing writes, so we warn early.
+const WARNING_RATIO = 0.8;
+
+const formatMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+// Shows how much browser storage the saved styles use, and why the last save failed if it did.
+const StorageUsage: React.FC<StorageUsageProps> = ({ estimate, saveError }) => {
+  if (!estimate && !saveError) {
+    return null;
+  }
+  const ratio = estimate && estimate.quota > 0 ? estimate.usage / estimate.quota : 0;
+  const isNearlyFull = ratio >= WARNING_RATIO;
+
+  return (
+    <div className="text-xs text-stone-500 px-1 space-y-1">
+      {estimate && (
+        <>
+          <div className="flex justify-between">
+            <span>Browser storage</span>
+            <span className={isNearlyFull ? 'text-red-600 font-semibold' : ''}>
+              {formatMb(estimate.usage)} MB of {formatMb(estimate.quota)} MB
+            </span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-1.5" role="progressbar" aria-valuenow={Math.round(ratio * 100)} aria-valuemin={0} aria-valuemax={100}>
+            <div className={`h-1.5 rounded-full ${isNearlyFull ? 'bg-red-500' : 'bg-pink-400'}`} style={{ width: `${Math.min(100, ratio * 100)}%` }}></div>
+          </div>
+        </>
+      )}
+      {saveError && (
+        <p className="text-red-600" role="alert">{saveError}</p>
+      )}
+    </div>
+  );
+};
+
+export default StorageUsage;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Wardrobe } from '../types';
+import { EditIcon, PlusIcon, TrashIcon } from './icons';
+
+interface WardrobeSwitcherProps {
+  wardrobes: Wardrobe[];
+  activeWardrobeId: string;
+  itemCounts: Record<string, number>;
+  onSwitch: (wardrobeId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (wardrobeId: string, name: string) => void;
+  onDelete: (wardrobeId: string) => void;
+}
+
+// Picks which wardrobe the catalogue shows, and creates, renames or deletes wardrobes.
+const WardrobeSwitcher: React.FC<WardrobeSwitcherProps> = ({ wardrobes, activeWardrobeId, itemCounts, onSwitch, onCreate, onRename, onDelete }) => {
+  // Which name is being edited: a new wardrobe, the active one, or neither.
+  const [editing, setEditing] = useState<'create' | 'rename' | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const activeWardrobe = wardrobes.find(wardrobe => wardrobe.id === activeWardrobeId);
+
+  const startEditing = (mode: 'create' | 'rename') => {
+    setEditing(mode);
+    setNameDraft(mode === 'rename' ? activeWardrobe?.name || '' : '');
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = nameDraft.trim();
+    if (!name) return;
+    if (editing === 'create') {
+      onCreate(name);
+    } else if (editing === 'rename') {
+      onRename(activeWardrobeId, name);
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = () => {
+    if (!activeWardrobe) return;
+    const count = itemCounts[activeWardrobe.id] || 0;
+    if (window.confirm(`Delete the wardrobe "${activeWardrobe.name}"${count > 0 ? ` and its ${count} ${count === 1 ? 'style' : 'styles'}` : ''}? This cannot be undone.`)) {
+      onDelete(activeWardrobe.id);
+    }
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-4">
+        <input
+          value={nameDraft}
+          onChange={(e) => setNameDraft(e.target.value)}
+          placeholder="e.g. Client: Priya, Autumn collection"
+          className="flex-grow p-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-pink-500 focus:border-pink-500"
+          aria-label={editing === 'create' ? 'New wardrobe name' : 'Wardrobe name'}
+          autoFocus
+        />
+        <button type="submit" className="py-2 px-4 bg-pink-600 text-white font-semibold rounded-lg shadow-md hover:bg-pink-700 transition-colors text-sm">
+          {editing === 'create' ? 'Create' : 'Rename'}
+        </button>
+        <button type="button" onClick={() => setEditing(null)} className="py-2 px-3 text-sm font-semibold text-gray-600 rounded-lg hover:bg-gray-100 transition-colors">Cancel</button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 mb-4">
+      <select
+        value={activeWardrobeId}
+        onChange={(e) => onSwitch(e.target.value)}
+        className="flex-grow p-2 border border-gray-300 rounded-md shadow-sm text-sm font-semibold text-stone-700 focus:ring-pink-500 focus:border-pink-500"
+        aria-label="Wardrobe"
+      >
+        {wardrobes.map(wardrobe => (
+          <option key={wardrobe.id} value={wardrobe.id}>{wardrobe.name} ({itemCounts[wardrobe.id] || 0})</option>
+        ))}
+      </select>
+      <button onClick={() => startEditing('create')} className="p-2 text-stone-600 hover:text-pink-700 transition-colors" aria-label="New wardrobe" title="New wardrobe">
+        <PlusIcon />
+      </button>
+      <button onClick={() => startEditing('rename')} className="p-2 text-stone-600 hover:text-pink-700 transition-colors" aria-label="Rename wardrobe" title="Rename wardrobe">
+        <EditIcon className="w-5 h-5" />
+      </button>
+      <button onClick={handleDelete} disabled={wardrobes.length <= 1} className="p-2 text-stone-600 hover:text-red-700 transition-colors disabled:text-gray-300 disabled:cursor-not-allowed" aria-label="Delete wardrobe" title={wardrobes.length <= 1 ? 'The last wardrobe cannot be deleted' : 'Delete wardrobe'}>
+        <TrashIcon />
+      </button>
+    </div>
+  );
+};
+
+export default WardrobeSwitcher;
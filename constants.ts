@@ -1,24 +1,29 @@
 import { FilterItem } from './types';
+import { createEmptyCategoryRecord } from './taxonomy';
 
 // This file simulates a database of clothing items.
 // In a real-world application, this data would be fetched from a backend service like Firestore.
 
 type CatalogueData = Record<string, FilterItem[]>;
 
-export const FEMALE_CATALOGUE_DATA: CatalogueData = {
-  outfits: [],
-  tops: [],
-  bottoms: [],
-  footwear: [],
-  headwear: [],
-  accessories: [],
+// Every wardrobe starts with the taxonomy's categories, in its order.
+export const EMPTY_CATALOGUE_DATA: CatalogueData = createEmptyCategoryRecord();
+
+export const DEFAULT_WARDROBE_NAME = 'My Wardrobe';
+
+// Model ids used by the Gemini backend. Shared by the API server, which makes the calls,
+// and the client, which records them in cache keys.
+export const GEMINI_MODELS = {
+  classification: 'gemini-2.5-flash',
+  image: 'gemini-2.5-flash-image',
+  video: 'veo-3.1-fast-generate-preview',
 };
 
-export const MALE_CATALOGUE_DATA: CatalogueData = {
-  outfits: [],
-  tops: [],
-  bottoms: [],
-  footwear: [],
-  headwear: [],
-  accessories: [],
+// Bumped whenever the matching prompt in server/gemini.ts changes, and recorded in the provenance of
+// every generated image and video, so results made with an older prompt can be told apart. The image
+// versions are also part of the result cache key, so a bump stops old results being served for the new prompt.
+export const PROMPT_TEMPLATE_VERSIONS = {
+  tryOn: 1,
+  edit: 1,
+  video: 1,
 };
@@ -0,0 +1,301 @@
+import { GenerateVideosOperation, GoogleGenAI, Modality, Type } from "@google/genai";
+import { GEMINI_MODELS } from "../constants";
+import { CATEGORY_IDS, describeCategoriesForClassifier } from "../taxonomy";
+import { ClassificationHint, ClothingClassification, Formality, GarmentAttributes, Presentation, Season } from "../types";
+
+// The subset of a catalogue item the server needs to build a try-on request.
+export interface TryOnItemPayload {
+  name: string;
+  category: string;
+  base64: string;
+  mimeType: string;
+  attributes?: GarmentAttributes;
+  wornOver?: string;
+}
+
+export interface VideoStatus {
+  done: boolean;
+  error?: string;
+}
+
+/**
+ * Thrown when the server itself is set up wrongly, e.g. without an API key; no request the
+ * client sends can succeed until an operator fixes it.
+ */
+export class ServerConfigurationError extends Error {}
+
+const requireApiKey = (): string => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new ServerConfigurationError("The server is not configured: GEMINI_API_KEY is not set.");
+  }
+  return apiKey;
+};
+
+/**
+ * Creates a Gemini client from the key held in the server environment.
+ * The key is read on every call so it can be rotated without restarting the process.
+ */
+const createClient = (): GoogleGenAI => new GoogleGenAI({ apiKey: requireApiKey() });
+
+const extractImage = (response: Awaited<ReturnType<GoogleGenAI['models']['generateContent']>>): string | null => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData?.data) {
+      return part.inlineData.data;
+    }
+  }
+  return null;
+};
+
+const FORMALITY_VALUES: Formality[] = ['casual', 'smart-casual', 'business', 'formal', 'festive'];
+const SEASON_VALUES: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+// Past corrections, phrased as worked examples of the categories this user means.
+const describeHints = (hints: ClassificationHint[]): string => hints.length === 0 ? '' : `
+This user has corrected earlier classifications. Treat these as examples of how they sort their items:
+${hints.map(hint => `- An item described as "${hint.description}" was classified as "${hint.fromCategory}" but belongs in "${hint.toCategory}".`).join('\n')}`;
+
+/**
+ * Uses Gemini to classify a clothing item into a specific category and extract its attributes.
+ * Hints from the user's past corrections steer it away from repeating the same mistakes.
+ */
+export const classifyClothingItem = async (imageBase64: string, mimeType: string, hints: ClassificationHint[] = []): Promise<ClothingClassification> => {
+  const ai = createClient();
+  const PROMPT = `Analyze the provided image of a clothing item. Your task is to determine its category. The category must be one of the following exact string values:
+${describeCategoriesForClassifier()}
+When a more specific category fits the item, choose it over the general one.
+Also describe the garment itself, ignoring any background, hanger or mannequin: its dominant colors (plain color names, most prominent first), pattern, fabric, sleeve style, neckline and length (use "n/a" where a property does not apply to this kind of item), how formal it is, the seasons it suits, and a one-sentence description a stylist could use to identify it.${describeHints(hints)}`;
+
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODELS.classification,
+    contents: {
+      parts: [
+        { inlineData: { data: imageBase64, mimeType: mimeType } },
+        { text: PROMPT },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          category: {
+            type: Type.STRING,
+            enum: CATEGORY_IDS,
+            description: "The category of the clothing item."
+          },
+          dominantColors: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Plain color names, most prominent first." },
+          pattern: { type: Type.STRING, description: "e.g. solid, striped, floral, checked, printed." },
+          fabric: { type: Type.STRING, description: "The apparent fabric or material." },
+          sleeveStyle: { type: Type.STRING, description: "e.g. sleeveless, short, long, three-quarter, or n/a." },
+          neckline: { type: Type.STRING, description: "e.g. crew, v-neck, collared, boat, or n/a." },
+          length: { type: Type.STRING, description: "e.g. cropped, hip-length, knee-length, ankle-length, or n/a." },
+          formality: { type: Type.STRING, enum: FORMALITY_VALUES },
+          seasons: { type: Type.ARRAY, items: { type: Type.STRING, enum: SEASON_VALUES } },
+          description: { type: Type.STRING, description: "One short sentence describing the item." },
+        },
+        required: ['category', 'dominantColors', 'pattern', 'fabric', 'sleeveStyle', 'neckline', 'length', 'formality', 'seasons', 'description']
+      }
+    },
+  });
+
+  const { category, ...attributes } = JSON.parse(response.text || '{}');
+
+  if (!CATEGORY_IDS.includes(category)) {
+    throw new Error("AI could not determine a valid category.");
+  }
+
+  return {
+    category,
+    attributes: {
+      dominantColors: attributes.dominantColors || [],
+      pattern: attributes.pattern || '',
+      fabric: attributes.fabric || '',
+      sleeveStyle: attributes.sleeveStyle || 'n/a',
+      neckline: attributes.neckline || 'n/a',
+      length: attributes.length || 'n/a',
+      formality: FORMALITY_VALUES.includes(attributes.formality) ? attributes.formality : 'casual',
+      seasons: (attributes.seasons || []).filter((season: Season) => SEASON_VALUES.includes(season)),
+      description: attributes.description || '',
+    },
+  };
+};
+
+/**
+ * Describes an item for the try-on prompt, using its attributes when we have them.
+ */
+const describeItem = (item: TryOnItemPayload): string => {
+  const layering = item.wornOver ? `, worn over the '${item.wornOver}'` : '';
+  const base = `- A '${item.category}' item named '${item.name}'${layering}`;
+  if (!item.attributes) {
+    return base;
+  }
+  const { description, dominantColors, pattern, fabric, sleeveStyle, neckline, length } = item.attributes;
+  const details = [
+    dominantColors.length > 0 ? `colors: ${dominantColors.join(', ')}` : null,
+    pattern && `pattern: ${pattern}`,
+    fabric && `fabric: ${fabric}`,
+    sleeveStyle !== 'n/a' && `sleeves: ${sleeveStyle}`,
+    neckline !== 'n/a' && `neckline: ${neckline}`,
+    length !== 'n/a' && `length: ${length}`,
+  ].filter(Boolean).join('; ');
+  return `${base}: ${description}${details ? ` (${details})` : ''}`;
+};
+
+// How the subject is referred to in the try-on prompt.
+const describeSubject = (presentation: Presentation): string =>
+  presentation === 'neutral' ? 'the user' : `the user, a ${presentation}`;
+
+export const virtualTryOn = async (
+  userImageBase64: string,
+  userImageMimeType: string,
+  catalogueItems: TryOnItemPayload[],
+  presentation: Presentation
+): Promise<string | null> => {
+  const ai = createClient();
+  const itemDescriptions = catalogueItems.map(describeItem).join('\n');
+
+  // Bump PROMPT_TEMPLATE_VERSIONS.tryOn in constants.ts when this prompt changes.
+  const PROMPT = `Your mission is to perform a hyper-realistic virtual try-on. You will create a new, high-fidelity photorealistic image where the person from the first image (${describeSubject(presentation)}) is wearing the provided clothing item(s). The original user image and the clothing items are provided as subsequent images:
+${itemDescriptions}
+**CRITICAL INSTRUCTIONS...`; // Prompt abbreviated for brevity
+
+  const catalogueParts = catalogueItems.map(item => ({
+    inlineData: {
+      data: item.base64,
+      mimeType: item.mimeType,
+    },
+  }));
+
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODELS.image,
+    contents: {
+      parts: [
+        { inlineData: { data: userImageBase64, mimeType: userImageMimeType } },
+        ...catalogueParts,
+        { text: PROMPT },
+      ],
+    },
+    config: {
+      responseModalities: [Modality.IMAGE],
+    },
+  });
+
+  return extractImage(response);
+};
+
+/**
+ * Edits an image based on a text prompt using Gemini.
+ */
+export const editImage = async (imageBase64: string, mimeType: string, prompt: string): Promise<string | null> => {
+  const ai = createClient();
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODELS.image,
+    contents: {
+      parts: [
+        { inlineData: { data: imageBase64, mimeType: mimeType } },
+        { text: prompt },
+      ],
+    },
+    config: {
+      responseModalities: [Modality.IMAGE],
+    },
+  });
+
+  return extractImage(response);
+};
+
+/**
+ * Cuts a garment out of its photo onto plain white using Gemini, removing whatever else is in
+ * the shot: backdrop, hanger, mannequin, model or clutter.
+ */
+export const cutoutGarment = async (imageBase64: string, mimeType: string): Promise<string | null> => {
+  const ai = createClient();
+  const PROMPT = `Cut the garment out of this photo. Remove everything that is not part of the garment itself: the background, any hanger, clip, mannequin, dress form, person, tags on strings and surrounding clutter. Place the garment, unchanged in shape, colour, pattern and texture, centred on a plain pure white background with no shadow. Do not add, restyle or complete any part of the garment.`;
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODELS.image,
+    contents: {
+      parts: [
+        { inlineData: { data: imageBase64, mimeType: mimeType } },
+        { text: PROMPT },
+      ],
+    },
+    config: {
+      responseModalities: [Modality.IMAGE],
+    },
+  });
+
+  return extractImage(response);
+};
+
+/**
+ * Starts a Veo video generation and returns the long-running operation name.
+ */
+export const startVideoGeneration = async (
+  imageBase64: string,
+  mimeType: string,
+  prompt: string,
+  aspectRatio: '16:9' | '9:16',
+  resolution: '720p' | '1080p'
+): Promise<string> => {
+  const ai = createClient();
+  // The user's prompt goes through as it is; bump PROMPT_TEMPLATE_VERSIONS.video in constants.ts
+  // if it is ever wrapped or changed here.
+  const operation = await ai.models.generateVideos({
+    model: GEMINI_MODELS.video,
+    prompt,
+    image: {
+      imageBytes: imageBase64,
+      mimeType: mimeType,
+    },
+    config: {
+      numberOfVideos: 1,
+      resolution: resolution,
+      aspectRatio
+    }
+  });
+
+  if (!operation.name) {
+    throw new Error("Video generation did not return an operation name.");
+  }
+  return operation.name;
+};
+
+const getVideoOperation = async (operationName: string): Promise<GenerateVideosOperation> => {
+  const ai = createClient();
+  const operation = new GenerateVideosOperation();
+  operation.name = operationName;
+  return ai.operations.getVideosOperation({ operation });
+};
+
+/**
+ * Reports whether a video operation has finished.
+ */
+export const getVideoStatus = async (operationName: string): Promise<VideoStatus> => {
+  const operation = await getVideoOperation(operationName);
+  if (operation.error) {
+    return { done: true, error: String(operation.error.message || 'Video generation failed.') };
+  }
+  return { done: !!operation.done };
+};
+
+/**
+ * Downloads the finished video for an operation. The key is sent as a header from here,
+ * so it never appears in a URL that reaches the browser.
+ */
+export const downloadVideo = async (operationName: string): Promise<Response> => {
+  const operation = await getVideoOperation(operationName);
+  const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+
+  if (!operation.done || !downloadLink) {
+    throw new Error("Video generation completed, but no download link was found.");
+  }
+
+  const response = await fetch(downloadLink, {
+    headers: { 'x-goog-api-key': requireApiKey() },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to download video: ${response.statusText}`);
+  }
+  return response;
+};
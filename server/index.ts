@@ -0,0 +1,262 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync } from 'node:fs';
+import { Readable } from 'node:stream';
+import {
+  classifyClothingItem,
+  virtualTryOn,
+  editImage,
+  cutoutGarment,
+  startVideoGeneration,
+  getVideoStatus,
+  downloadVideo,
+  TryOnItemPayload,
+} from './gemini';
+import { ClassificationHint, GarmentAttributes, Presentation } from '../types';
+
+// Load GEMINI_API_KEY and friends from the same file the Vite dev server reads.
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const PORT = Number(process.env.API_PORT) || 3001;
+// Several full-size images travel base64-encoded in a single try-on request.
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const readJsonBody = async (request: IncomingMessage): Promise<JsonObject> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body is too large.');
+    }
+    chunks.push(chunk);
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON.');
+  }
+  if (!isJsonObject(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object.');
+  }
+  return body;
+};
+
+const isJsonObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireString = (body: JsonObject, field: string, label = field): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `"${label}" must be a non-empty string.`);
+  }
+  return value;
+};
+
+const requireOneOf = <T extends string>(body: JsonObject, field: string, allowed: readonly T[]): T => {
+  const value = body[field];
+  if (!allowed.includes(value as T)) {
+    throw new HttpError(400, `"${field}" must be one of: ${allowed.join(', ')}.`);
+  }
+  return value as T;
+};
+
+const requireImageMimeType = (body: JsonObject, field: string, label = field): string => {
+  const mimeType = requireString(body, field, label);
+  if (!mimeType.startsWith('image/')) {
+    throw new HttpError(400, `"${label}" must be an image MIME type.`);
+  }
+  return mimeType;
+};
+
+const PRESENTATIONS: readonly Presentation[] = ['female', 'male', 'neutral'];
+// Each hint lengthens the classification prompt; the client sends far fewer than this.
+const MAX_CLASSIFICATION_HINTS = 50;
+
+const readClassificationHints = (body: JsonObject): ClassificationHint[] => {
+  const { hints } = body;
+  if (hints === undefined) return [];
+  if (!Array.isArray(hints) || hints.length > MAX_CLASSIFICATION_HINTS) {
+    throw new HttpError(400, `"hints" must be an array of at most ${MAX_CLASSIFICATION_HINTS} corrections.`);
+  }
+  return hints.map((hint: unknown, index) => {
+    if (!isJsonObject(hint)) {
+      throw new HttpError(400, `"hints[${index}]" must be an object.`);
+    }
+    return {
+      description: requireString(hint, 'description', `hints[${index}].description`),
+      fromCategory: requireString(hint, 'fromCategory', `hints[${index}].fromCategory`),
+      toCategory: requireString(hint, 'toCategory', `hints[${index}].toCategory`),
+    };
+  });
+};
+
+const ATTRIBUTE_LIST_FIELDS = ['dominantColors', 'seasons'] as const;
+const ATTRIBUTE_TEXT_FIELDS = ['pattern', 'fabric', 'sleeveStyle', 'neckline', 'length', 'formality', 'description'] as const;
+
+// Attributes only flavour the prompt, so they are checked for shape, not content.
+const requireAttributes = (value: unknown, label: string): GarmentAttributes => {
+  if (!isJsonObject(value)) {
+    throw new HttpError(400, `"${label}" must be an object.`);
+  }
+  ATTRIBUTE_LIST_FIELDS.forEach(field => {
+    const list = value[field];
+    if (!Array.isArray(list) || list.some(entry => typeof entry !== 'string')) {
+      throw new HttpError(400, `"${label}.${field}" must be an array of strings.`);
+    }
+  });
+  ATTRIBUTE_TEXT_FIELDS.forEach(field => {
+    if (typeof value[field] !== 'string') {
+      throw new HttpError(400, `"${label}.${field}" must be a string.`);
+    }
+  });
+  return value as unknown as GarmentAttributes;
+};
+
+const requireTryOnItems = (body: JsonObject): TryOnItemPayload[] => {
+  const { items } = body;
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new HttpError(400, '"items" must be a non-empty array.');
+  }
+  return items.map((item: unknown, index) => {
+    if (!isJsonObject(item)) {
+      throw new HttpError(400, `"items[${index}]" must be an object.`);
+    }
+    if (item.wornOver !== undefined && typeof item.wornOver !== 'string') {
+      throw new HttpError(400, `"items[${index}].wornOver" must be a string.`);
+    }
+    return {
+      name: requireString(item, 'name', `items[${index}].name`),
+      category: requireString(item, 'category', `items[${index}].category`),
+      base64: requireString(item, 'base64', `items[${index}].base64`),
+      mimeType: requireImageMimeType(item, 'mimeType', `items[${index}].mimeType`),
+      attributes: item.attributes === undefined ? undefined : requireAttributes(item.attributes, `items[${index}].attributes`),
+      wornOver: item.wornOver as string | undefined,
+    };
+  });
+};
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+const requireOperationName = (url: URL): string => {
+  const name = url.searchParams.get('name');
+  if (!name) {
+    throw new HttpError(400, 'Missing operation name.');
+  }
+  return name;
+};
+
+const handleRequest = async (request: IncomingMessage, response: ServerResponse) => {
+  const url = new URL(request.url || '/', `http://${request.headers.host || 'localhost'}`);
+  const route = `${request.method} ${url.pathname}`;
+
+  switch (route) {
+    case 'POST /api/classify': {
+      const body = await readJsonBody(request);
+      const classification = await classifyClothingItem(
+        requireString(body, 'imageBase64'),
+        requireImageMimeType(body, 'mimeType'),
+        readClassificationHints(body)
+      );
+      return sendJson(response, 200, classification);
+    }
+    case 'POST /api/try-on': {
+      const body = await readJsonBody(request);
+      const image = await virtualTryOn(
+        requireString(body, 'userImageBase64'),
+        requireImageMimeType(body, 'userImageMimeType'),
+        requireTryOnItems(body),
+        requireOneOf(body, 'presentation', PRESENTATIONS)
+      );
+      return sendJson(response, 200, { image });
+    }
+    case 'POST /api/edit': {
+      const body = await readJsonBody(request);
+      const image = await editImage(requireString(body, 'imageBase64'), requireImageMimeType(body, 'mimeType'), requireString(body, 'prompt'));
+      return sendJson(response, 200, { image });
+    }
+    case 'POST /api/cutout': {
+      const body = await readJsonBody(request);
+      const image = await cutoutGarment(requireString(body, 'imageBase64'), requireImageMimeType(body, 'mimeType'));
+      return sendJson(response, 200, { image });
+    }
+    case 'POST /api/video': {
+      const body = await readJsonBody(request);
+      const operationName = await startVideoGeneration(
+        requireString(body, 'imageBase64'),
+        requireImageMimeType(body, 'mimeType'),
+        requireString(body, 'prompt'),
+        requireOneOf(body, 'aspectRatio', ['16:9', '9:16'] as const),
+        requireOneOf(body, 'resolution', ['720p', '1080p'] as const)
+      );
+      return sendJson(response, 200, { operationName });
+    }
+    case 'GET /api/video/status': {
+      const status = await getVideoStatus(requireOperationName(url));
+      return sendJson(response, 200, status);
+    }
+    case 'GET /api/video/download': {
+      const video = await downloadVideo(requireOperationName(url));
+      response.writeHead(200, { 'Content-Type': video.headers.get('content-type') || 'video/mp4' });
+      if (video.body) {
+        Readable.fromWeb(video.body as import('node:stream/web').ReadableStream).pipe(response);
+      } else {
+        response.end();
+      }
+      return;
+    }
+    default:
+      throw new HttpError(404, `No route for ${route}.`);
+  }
+};
+
+const server = createServer((request, response) => {
+  // Only needed when the client is served from a different origin (see API_BASE_URL).
+  const allowedOrigin = process.env.CORS_ORIGIN;
+  if (allowedOrigin) {
+    response.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204);
+      response.end();
+      return;
+    }
+  }
+  handleRequest(request, response).catch((error: unknown) => {
+    console.error(`Error handling ${request.method} ${request.url}:`, error);
+    // Upstream SDK errors carry an HTTP status; pass it and the raw message through so the
+    // client can map them to user-facing text exactly as it did when calling Gemini directly.
+    // A ServerConfigurationError has no status, so it becomes a 500 carrying its explanation
+    // rather than a 503, which the client would keep retrying.
+    const status = error instanceof HttpError
+      ? error.status
+      : (typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : 500);
+    const message = error instanceof Error ? error.message : 'Unexpected server error.';
+    if (!response.headersSent) {
+      sendJson(response, status, { error: message });
+    } else {
+      response.end();
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  if (!process.env.GEMINI_API_KEY) {
+    console.warn('GEMINI_API_KEY is not set; AI requests will fail until it is configured.');
+  }
+  console.log(`Creative Studio API listening on http://localhost:${PORT}`);
+});
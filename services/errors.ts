@@ -0,0 +1,109 @@
+export type ServiceErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety-blocked'
+  | 'unavailable'
+  | 'no-image-returned'
+  | 'network'
+  | 'cancelled'
+  | 'timeout'
+  | 'invalid-request'
+  | 'unknown';
+
+/**
+ * Base class for every error surfaced by the generation layer. `message` is always safe to show
+ * to the user; the original SDK/HTTP error is kept as `cause` for logging.
+ */
+export class ServiceError extends Error {
+  readonly kind: ServiceErrorKind;
+  // Whether the request scheduler may retry the same request automatically.
+  readonly retryable: boolean;
+  // The original error's own message, shown beneath `message` when it adds something.
+  readonly detail?: string;
+
+  constructor(kind: ServiceErrorKind, message: string, options: { retryable?: boolean; cause?: unknown; detail?: string } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.detail = options.detail;
+  }
+}
+
+export class AuthError extends ServiceError {
+  constructor(message = "API Key not found or invalid. Please select a valid API key and try again.", cause?: unknown) {
+    super('auth', message, { cause });
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends ServiceError {
+  constructor(message = "The AI service is currently experiencing high demand. Please try again in a few minutes.", cause?: unknown) {
+    super('quota', message, { retryable: true, cause });
+    this.name = 'QuotaError';
+  }
+}
+
+export class SafetyBlockedError extends ServiceError {
+  constructor(message = "The request was blocked by the AI. This can happen if an image is unsuitable for processing. Please try a different photo.", cause?: unknown) {
+    super('safety-blocked', message, { cause });
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class UnavailableError extends ServiceError {
+  constructor(message = "The AI styling service is temporarily unavailable. Please try again later.", cause?: unknown) {
+    super('unavailable', message, { retryable: true, cause });
+    this.name = 'UnavailableError';
+  }
+}
+
+export class NoImageReturnedError extends ServiceError {
+  constructor(message = "The AI model did not return an image. Please try a different prompt or image.", cause?: unknown) {
+    super('no-image-returned', message, { cause });
+    this.name = 'NoImageReturnedError';
+  }
+}
+
+export class NetworkError extends ServiceError {
+  constructor(message = "Could not reach the AI service. Please check your connection and try again.", cause?: unknown) {
+    super('network', message, { retryable: true, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class CancelledError extends ServiceError {
+  constructor(message = "The request was cancelled.", cause?: unknown) {
+    super('cancelled', message, { cause });
+    this.name = 'CancelledError';
+  }
+}
+
+export class TimeoutError extends ServiceError {
+  constructor(message = "The request took longer than the maximum wait and was stopped.", cause?: unknown) {
+    super('timeout', message, { cause });
+    this.name = 'TimeoutError';
+  }
+}
+
+// For requests the app refuses to send, e.g. no photo selected or an empty prompt.
+export class InvalidRequestError extends ServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('invalid-request', message, { cause });
+    this.name = 'InvalidRequestError';
+  }
+}
+
+/**
+ * Wraps anything thrown into a ServiceError, keeping existing ServiceErrors as they are. The
+ * original message is kept as the detail, since it is often the only clue to what went wrong.
+ */
+export const toServiceError = (error: unknown): ServiceError => {
+  if (error instanceof ServiceError) {
+    return error;
+  }
+  return new ServiceError('unknown', "An unexpected error occurred with the AI service. Please try again.", {
+    cause: error,
+    detail: error instanceof Error && error.message ? error.message : undefined,
+  });
+};
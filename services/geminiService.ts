@@ -1,85 +1,106 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { TryOnItem } from "../types";
-
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-    throw new Error("API_KEY environment variable not set");
+import { ClassificationHint, ClothingClassification, Presentation, TryOnItem } from "../types";
+import { GEMINI_MODELS } from "../constants";
+import { GenerationProvider, VideoOperationStatus } from "./generationProvider";
+import {
+  ServiceError,
+  AuthError,
+  QuotaError,
+  SafetyBlockedError,
+  UnavailableError,
+  NoImageReturnedError,
+  NetworkError,
+  toServiceError,
+} from "./errors";
+
+// The Gemini API key lives on the server (see server/index.ts); the browser only talks to
+// these proxy endpoints. API_BASE_URL is empty by default, i.e. same-origin /api routes.
+const API_BASE_URL = process.env.API_BASE_URL || '';
+
+// A non-2xx response from the proxy, carrying the upstream status and raw message.
+class ApiResponseError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
 }
 
-
-const parseGeminiError = (error: unknown): string => {
+/**
+ * Maps a failed Gemini call to a typed ServiceError with a user-facing message.
+ */
+const parseGeminiError = (error: unknown): ServiceError => {
+    if (error instanceof ServiceError) {
+        return error;
+    }
+    // fetch() rejects with a TypeError when the proxy cannot be reached at all.
+    if (error instanceof TypeError) {
+        return new NetworkError(undefined, error);
+    }
     if (error instanceof Error) {
         const message = error.message.toLowerCase();
+        const status = error instanceof ApiResponseError ? error.status : null;
         if (message.includes("api key not valid")) {
-            return "The AI service is not configured correctly. Please contact support.";
+            return new AuthError("The AI service is not configured correctly. Please contact support.", error);
         }
-         if (message.includes("requested entity was not found")) {
-            return "API Key not found or invalid. Please select a valid API key and try again.";
+        if (message.includes("requested entity was not found") || status === 401 || status === 403) {
+            return new AuthError(undefined, error);
         }
-        if (message.includes("quota")) {
-            return "The AI service is currently experiencing high demand. Please try again in a few minutes.";
+        if (message.includes("quota") || status === 429) {
+            return new QuotaError(undefined, error);
         }
-        if (message.includes("503") || message.includes("unavailable")) {
-            return "The AI styling service is temporarily unavailable. Please try again later.";
+        if (message.includes("503") || message.includes("unavailable") || status === 503) {
+            return new UnavailableError(undefined, error);
         }
-         if (message.includes("invalid argument") || message.includes("request was blocked")) {
-            return "The request was blocked by the AI. This can happen if an image is unsuitable for processing. Please try a different photo.";
+        if (message.includes("invalid argument") || message.includes("request was blocked")) {
+            return new SafetyBlockedError(undefined, error);
         }
     }
-    return "An unexpected error occurred with the AI service. Please try again.";
+    return toServiceError(error);
+};
+
+/**
+ * Calls a proxy endpoint and returns its JSON body. Non-2xx responses are rethrown as
+ * ApiResponseErrors carrying the status and the upstream message for parseGeminiError.
+ */
+const callApi = async <T,>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiResponseError(response.status, body?.error || response.statusText);
+  }
+  return response.json();
 };
 
+const postJson = <T,>(path: string, payload: unknown): Promise<T> => callApi<T>(path, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(payload),
+});
+
 /**
- * Uses Gemini to classify a clothing item into a specific category.
+ * Uses Gemini to classify a clothing item into a specific category and extract its attributes.
  * @param imageBase64 The base64 encoded image data.
  * @param mimeType The MIME type of the image.
- * @returns The category of the clothing item.
+ * @returns The category and structured attributes of the clothing item.
  */
 export const classifyClothingItem = async (
   imageBase64: string,
-  mimeType: string
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-  const PROMPT = `Analyze the provided image of a clothing item. Your task is to determine its category. The category must be one of the following exact string values: "outfits", "tops", "bottoms", "footwear", "headwear", "accessories". An "outfit" is a single item that covers both the top and bottom of the body, like a dress or a suit.`;
-
+  mimeType: string,
+  hints: ClassificationHint[] = []
+): Promise<ClothingClassification> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          { inlineData: { data: imageBase64, mimeType: mimeType } },
-          { text: PROMPT },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            category: {
-              type: Type.STRING,
-              enum: ["outfits", "tops", "bottoms", "footwear", "headwear", "accessories"],
-              description: "The category of the clothing item."
-            }
-          },
-          required: ['category']
-        }
-      },
-    });
-
-    const jsonResponse = JSON.parse(response.text);
-    const category = jsonResponse.category;
-    
-    if (!category) {
-        throw new Error("AI could not determine a valid category.");
+    const classification = await postJson<Partial<ClothingClassification>>('/api/classify', { imageBase64, mimeType, hints });
+
+    if (!classification.category || !classification.attributes) {
+        throw new ServiceError('unknown', "AI could not determine a valid category.");
     }
-    
-    return category;
+
+    return { category: classification.category, attributes: classification.attributes };
 
   } catch (error) {
     console.error("Error calling Gemini API for classification:", error);
-    const userFriendlyError = parseGeminiError(error);
-    throw new Error(userFriendlyError);
+    throw parseGeminiError(error);
   }
 };
 
@@ -88,51 +109,28 @@ export const virtualTryOn = async (
   userImageBase64: string,
   userImageMimeType: string,
   catalogueItems: TryOnItem[],
-  gender: 'female' | 'male'
+  presentation: Presentation
 ): Promise<string | null> => {
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-  const itemDescriptions = catalogueItems.map(item => 
-    `- A '${item.category}' item named '${item.name}'`
-  ).join('\n');
-
-  const PROMPT = `Your mission is to perform a hyper-realistic virtual try-on. You will create a new, high-fidelity photorealistic image where the person from the first image (the user, a ${gender}) is wearing the provided clothing item(s). The original user image and the clothing items are provided as subsequent images:
-${itemDescriptions}
-**CRITICAL INSTRUCTIONS...`; // Prompt abbreviated for brevity
-
-  const catalogueParts = catalogueItems.map(item => ({
-    inlineData: {
-      data: item.image.base64,
-      mimeType: item.image.mimeType,
-    },
+  const items = catalogueItems.map(item => ({
+    name: item.name,
+    category: item.category,
+    base64: item.image.base64,
+    mimeType: item.image.mimeType,
+    attributes: item.attributes,
+    wornOver: item.wornOver,
   }));
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          { inlineData: { data: userImageBase64, mimeType: userImageMimeType } },
-          ...catalogueParts,
-          { text: PROMPT },
-        ],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return part.inlineData.data;
-      }
+    const { image } = await postJson<{ image: string | null }>('/api/try-on', { userImageBase64, userImageMimeType, items, presentation });
+    if (image) {
+      return image;
     }
-    
-    throw new Error("The AI model did not return an image. This can happen if the input is unclear or violates safety policies. Please try a different photo.");
+
+    throw new NoImageReturnedError("The AI model did not return an image. This can happen if the input is unclear or violates safety policies. Please try a different photo.");
 
   } catch (error) {
     console.error("Error calling Gemini API:", error);
-    const userFriendlyError = parseGeminiError(error);
-    throw new Error(userFriendlyError);
+    throw parseGeminiError(error);
   }
 };
 
@@ -144,88 +142,97 @@ export const editImage = async (
   mimeType: string,
   prompt: string
 ): Promise<string | null> => {
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          { inlineData: { data: imageBase64, mimeType: mimeType } },
-          { text: prompt },
-        ],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return part.inlineData.data;
-      }
+    const { image } = await postJson<{ image: string | null }>('/api/edit', { imageBase64, mimeType, prompt });
+    if (image) {
+      return image;
     }
 
-    throw new Error("The AI model did not return an image. Please try a different prompt or image.");
+    throw new NoImageReturnedError();
 
   } catch (error) {
     console.error("Error calling Gemini API for image editing:", error);
-    const userFriendlyError = parseGeminiError(error);
-    throw new Error(userFriendlyError);
+    throw parseGeminiError(error);
   }
 };
 
 /**
- * Generates a video from an image and a text prompt using Veo.
+ * Cuts a garment out of its photo onto plain white using Gemini.
  */
-export const generateVideo = async (
+export const cutoutGarment = async (imageBase64: string, mimeType: string): Promise<string | null> => {
+  try {
+    const { image } = await postJson<{ image: string | null }>('/api/cutout', { imageBase64, mimeType });
+    return image;
+  } catch (error) {
+    console.error("Error calling Gemini API for garment cutout:", error);
+    throw parseGeminiError(error);
+  }
+};
+
+/**
+ * Starts generating a video from an image and a text prompt using Veo.
+ * @returns The name of the long-running operation, used to poll and fetch the result.
+ */
+export const startVideo = async (
   imageBase64: string,
   mimeType: string,
   prompt: string,
   aspectRatio: '16:9' | '9:16',
-  // FIX: Added resolution parameter to match the function call in App.tsx.
   resolution: '720p' | '1080p'
 ): Promise<string> => {
-  // Create a new instance to ensure the latest API key is used
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
   try {
-    let operation = await ai.models.generateVideos({
-      model: 'veo-3.1-fast-generate-preview',
-      prompt,
-      image: {
-        imageBytes: imageBase64,
-        mimeType: mimeType,
-      },
-      config: {
-        numberOfVideos: 1,
-        // FIX: Use the resolution parameter instead of a hardcoded value.
-        resolution: resolution,
-        aspectRatio
-      }
-    });
-
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 10000)); // Poll every 10 seconds
-      operation = await ai.operations.getVideosOperation({ operation: operation });
-    }
-
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+    const { operationName } = await postJson<{ operationName: string }>('/api/video', { imageBase64, mimeType, prompt, aspectRatio, resolution });
+    return operationName;
+  } catch (error) {
+    console.error("Error calling Veo API:", error);
+    throw parseGeminiError(error);
+  }
+};
 
-    if (!downloadLink) {
-      throw new Error("Video generation completed, but no download link was found.");
+/**
+ * Checks whether a Veo operation has finished. A failed operation is thrown as a ServiceError.
+ */
+export const pollVideo = async (operationName: string): Promise<VideoOperationStatus> => {
+  try {
+    const status = await callApi<{ done: boolean; error?: string }>(`/api/video/status?name=${encodeURIComponent(operationName)}`);
+    if (status.error) {
+      throw new Error(status.error);
     }
+    return { done: status.done };
+  } catch (error) {
+    console.error("Error polling Veo operation:", error);
+    throw parseGeminiError(error);
+  }
+};
 
-    const response = await fetch(`${downloadLink}&key=${API_KEY}`);
+/**
+ * Downloads the finished video through the proxy and returns it as an Object URL.
+ */
+export const fetchVideo = async (operationName: string): Promise<string> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/video/download?name=${encodeURIComponent(operationName)}`);
     if (!response.ok) {
         throw new Error(`Failed to download video: ${response.statusText}`);
     }
     const videoBlob = await response.blob();
-    const videoUrl = URL.createObjectURL(videoBlob);
-    
-    return videoUrl;
-
+    return URL.createObjectURL(videoBlob);
   } catch (error) {
-    console.error("Error calling Veo API:", error);
-    const userFriendlyError = parseGeminiError(error);
-    throw new Error(userFriendlyError);
+    console.error("Error downloading Veo video:", error);
+    throw parseGeminiError(error);
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: GenerationProvider = {
+  name: 'gemini',
+  // The proxy holds the key, so there is nothing for the user to pick in the browser.
+  requiresApiKeySelection: false,
+  models: GEMINI_MODELS,
+  classifyClothingItem,
+  virtualTryOn,
+  editImage,
+  cutoutGarment,
+  startVideo,
+  pollVideo,
+  fetchVideo,
+  videoPollIntervalMs: 10000,
+};
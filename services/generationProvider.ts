@@ -0,0 +1,73 @@
+import { ClassificationHint, ClothingClassification, Presentation, TryOnItem } from "../types";
+
+export type ProviderName = 'gemini' | 'mock';
+
+export interface VideoOperationStatus {
+  done: boolean;
+}
+
+/**
+ * The contract every generation backend implements. App.tsx only talks to this interface,
+ * so the studio can run against Gemini or the offline mock without any other changes.
+ */
+export interface GenerationProvider {
+  name: ProviderName;
+  // Whether the backend needs the AI Studio key picker before video generation.
+  requiresApiKeySelection: boolean;
+  // The model ids behind each operation, recorded wherever results are keyed or attributed.
+  models: { classification: string; image: string; video: string };
+  classifyClothingItem: (imageBase64: string, mimeType: string, hints?: ClassificationHint[]) => Promise<ClothingClassification>;
+  virtualTryOn: (
+    userImageBase64: string,
+    userImageMimeType: string,
+    catalogueItems: TryOnItem[],
+    presentation: Presentation
+  ) => Promise<string | null>;
+  editImage: (imageBase64: string, mimeType: string, prompt: string) => Promise<string | null>;
+  // Cuts a garment out of its photo onto plain white, hanger, mannequin and backdrop removed.
+  cutoutGarment: (imageBase64: string, mimeType: string) => Promise<string | null>;
+  // Video generation is a long-running operation: start it, poll it by name, then fetch the result.
+  // Operation names are plain strings so a job can be persisted and resumed after a reload.
+  startVideo: (
+    imageBase64: string,
+    mimeType: string,
+    prompt: string,
+    aspectRatio: '16:9' | '9:16',
+    resolution: '720p' | '1080p'
+  ) => Promise<string>;
+  pollVideo: (operationName: string) => Promise<VideoOperationStatus>;
+  fetchVideo: (operationName: string) => Promise<string>; // Resolves with an Object URL
+  videoPollIntervalMs: number;
+}
+
+/**
+ * Resolves the configured provider name. GENERATION_PROVIDER is inlined by vite.config.ts;
+ * it can be overridden per tab with a `?provider=mock` query parameter for quick demos.
+ */
+export const getConfiguredProviderName = (): ProviderName => {
+  const fromQuery = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('provider')
+    : null;
+  const configured = (fromQuery || process.env.GENERATION_PROVIDER || 'gemini').toLowerCase();
+  return configured === 'mock' ? 'mock' : 'gemini';
+};
+
+let activeProvider: GenerationProvider | null = null;
+
+/**
+ * Returns the generation provider selected by config. Both backends are loaded lazily so that
+ * the Gemini SDK is never pulled in when running fully offline.
+ */
+export const getGenerationProvider = async (): Promise<GenerationProvider> => {
+  if (activeProvider) {
+    return activeProvider;
+  }
+  if (getConfiguredProviderName() === 'mock') {
+    const { mockProvider } = await import('./mockService');
+    activeProvider = mockProvider;
+  } else {
+    const { geminiProvider } = await import('./geminiService');
+    activeProvider = geminiProvider;
+  }
+  return activeProvider;
+};
@@ -0,0 +1,194 @@
+import { GenerationJob, GenerationJobKind } from "../types";
+import { CancelledError } from "./errors";
+import { requestScheduler } from "./requestScheduler";
+
+export interface JobSpec<T> {
+  label: string;
+  // Called again from scratch on retry. Should stop early once the signal aborts. Jobs that go on
+  // to wait on the service, like a video being polled, call `releaseSlot` once the costly part is
+  // done so queued jobs can start; they keep running, but no longer count against the concurrency.
+  run: (signal: AbortSignal, releaseSlot: () => void) => Promise<T>;
+  // When the work began, for a job picking up work started earlier, e.g. a video from a previous visit.
+  startedAt?: number;
+  onSuccess: (result: T, job: GenerationJob) => void;
+  // Also called with a CancelledError when the user cancels the job.
+  onFailure?: (error: unknown, job: GenerationJob) => void;
+}
+
+export interface JobQueueState {
+  jobs: GenerationJob[];
+  isPaused: boolean;
+}
+
+interface Entry {
+  job: GenerationJob;
+  spec: JobSpec<unknown>;
+  controller: AbortController | null;
+  holdsSlot: boolean;
+}
+
+const isFinished = (job: GenerationJob) => job.status !== 'queued' && job.status !== 'running';
+
+/**
+ * Creates a manager for try-on, edit and video jobs. Jobs wait in its queue, where they can be
+ * paused or cancelled, and are only started when a slot is free; the calls they make still go
+ * through the request scheduler for rate limiting and automatic retries.
+ * @param getConcurrency Returns how many jobs may run at once, read each time a job could start.
+ */
+export const createJobManager = (getConcurrency: () => number) => {
+  const entries: Entry[] = [];
+  const listeners = new Set<(state: JobQueueState) => void>();
+  let isPaused = false;
+  let nextJobId = 0;
+  let nextBatchId = 0;
+
+  const snapshot = (): JobQueueState => ({ jobs: entries.map(entry => entry.job), isPaused });
+
+  const notify = () => {
+    const state = snapshot();
+    listeners.forEach(listener => listener(state));
+  };
+
+  const setJobState = (entry: Entry, changes: Partial<GenerationJob>) => {
+    entry.job = { ...entry.job, ...changes };
+    notify();
+  };
+
+  const findEntry = (jobId: string) => entries.find(entry => entry.job.id === jobId);
+
+  const start = async (entry: Entry) => {
+    const controller = new AbortController();
+    entry.controller = controller;
+    entry.holdsSlot = true;
+    setJobState(entry, { status: 'running' });
+    const releaseSlot = () => {
+      if (entry.controller !== controller || !entry.holdsSlot) return;
+      entry.holdsSlot = false;
+      pump();
+    };
+    try {
+      const result = await entry.spec.run(controller.signal, releaseSlot);
+      // A cancelled job has already given up its slot; its late result is dropped.
+      if (controller.signal.aborted) return;
+      setJobState(entry, { status: 'succeeded', error: null, finishedAt: Date.now() });
+      entry.spec.onSuccess(result, entry.job);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setJobState(entry, { status: 'failed', error: error instanceof Error ? error.message : 'Request failed.', finishedAt: Date.now() });
+      entry.spec.onFailure?.(error, entry.job);
+    } finally {
+      if (entry.controller === controller) {
+        entry.controller = null;
+        entry.holdsSlot = false;
+      }
+      pump();
+    }
+  };
+
+  const pump = () => {
+    if (isPaused) return;
+    let running = entries.filter(entry => entry.job.status === 'running' && entry.holdsSlot).length;
+    for (const entry of entries) {
+      if (running >= getConcurrency()) break;
+      if (entry.job.status === 'queued') {
+        running++;
+        start(entry);
+      }
+    }
+  };
+
+  const cancelEntry = (entry: Entry) => {
+    if (isFinished(entry.job)) return;
+    const error = new CancelledError(`"${entry.job.label}" was cancelled.`);
+    // The reason is what `signal.throwIfAborted()` throws inside the job.
+    entry.controller?.abort(error);
+    entry.controller = null;
+    entry.holdsSlot = false;
+    setJobState(entry, { status: 'cancelled', error: error.message, finishedAt: Date.now() });
+    entry.spec.onFailure?.(error, entry.job);
+  };
+
+  return {
+    /**
+     * Queues one job per spec as a single batch, in order.
+     * @returns The batch id shared by the new jobs.
+     */
+    submit<T>(kind: GenerationJobKind, specs: JobSpec<T>[]): string {
+      const batchId = `batch-${++nextBatchId}`;
+      specs.forEach(spec => {
+        entries.push({
+          job: { id: `generation-${++nextJobId}`, batchId, kind, label: spec.label, status: 'queued', error: null, attempt: 1, createdAt: spec.startedAt ?? Date.now(), finishedAt: null },
+          spec: spec as JobSpec<unknown>,
+          controller: null,
+          holdsSlot: false,
+        });
+      });
+      notify();
+      pump();
+      return batchId;
+    },
+
+    subscribe(listener: (state: JobQueueState) => void): () => void {
+      listeners.add(listener);
+      listener(snapshot());
+      return () => { listeners.delete(listener); };
+    },
+
+    /**
+     * Stops starting queued jobs. Jobs already running are left to finish.
+     */
+    pause() {
+      isPaused = true;
+      notify();
+    },
+
+    resume() {
+      isPaused = false;
+      notify();
+      pump();
+    },
+
+    cancel(jobId: string) {
+      const entry = findEntry(jobId);
+      if (!entry) return;
+      cancelEntry(entry);
+      pump();
+    },
+
+    cancelBatch(batchId: string) {
+      entries.filter(entry => entry.job.batchId === batchId).forEach(cancelEntry);
+      pump();
+    },
+
+    cancelAll() {
+      entries.forEach(cancelEntry);
+    },
+
+    /**
+     * Queues a failed or cancelled job again, behind the jobs already waiting.
+     */
+    retry(jobId: string) {
+      const entry = findEntry(jobId);
+      if (!entry || (entry.job.status !== 'failed' && entry.job.status !== 'cancelled')) return;
+      entries.splice(entries.indexOf(entry), 1);
+      entries.push(entry);
+      setJobState(entry, { status: 'queued', error: null, attempt: entry.job.attempt + 1, createdAt: Date.now(), finishedAt: null });
+      pump();
+    },
+
+    /**
+     * Removes succeeded, failed and cancelled jobs from the queue.
+     */
+    clearFinished() {
+      const remaining = entries.filter(entry => !isFinished(entry.job));
+      entries.splice(0, entries.length, ...remaining);
+      notify();
+    },
+  };
+};
+
+export type JobManager = ReturnType<typeof createJobManager>;
+
+// Runs as many jobs at once as the scheduler runs requests, so a paused queue holds back
+// everything that has not yet reached the scheduler. Videos being polled do not count.
+export const jobManager = createJobManager(() => requestScheduler.getOptions().concurrency);
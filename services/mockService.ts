@@ -0,0 +1,232 @@
+import { ClothingClassification, Formality, Presentation, Season, TryOnItem } from "../types";
+import { GenerationProvider, VideoOperationStatus } from "./generationProvider";
+import { ServiceError } from "./errors";
+import { loadImageElement, toDataUrl } from "../utils/imageUtils";
+import { CATEGORY_IDS } from "../taxonomy";
+
+// A short artificial delay so loading states can be exercised just like with the real API.
+const MOCK_LATENCY_MS = 800;
+const MOCK_VIDEO_DURATION_MS = 2000;
+// How long a mock video operation reports itself as still running.
+const MOCK_VIDEO_RENDER_MS = 6000;
+const MOCK_VIDEO_FPS = 24;
+
+const MOCK_COLORS = ["black", "white", "navy", "red", "beige", "olive", "pink", "grey"];
+const MOCK_PATTERNS = ["solid", "striped", "floral", "checked", "printed"];
+const MOCK_FABRICS = ["cotton", "linen", "denim", "silk", "wool", "leather"];
+const MOCK_FORMALITIES: Formality[] = ['casual', 'smart-casual', 'business', 'formal', 'festive'];
+const MOCK_SEASONS: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * A small, stable string hash (FNV-1a) so the same input always produces the same mock output.
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error("Could not create a canvas context for the mock provider.");
+  }
+  return [canvas, context];
+};
+
+const drawBanner = (context: CanvasRenderingContext2D, width: number, text: string) => {
+  const bannerHeight = Math.max(32, Math.round(width * 0.06));
+  context.fillStyle = 'rgba(219, 39, 119, 0.85)';
+  context.fillRect(0, 0, width, bannerHeight);
+  context.fillStyle = '#ffffff';
+  context.font = `600 ${Math.round(bannerHeight * 0.5)}px Poppins, sans-serif`;
+  context.textBaseline = 'middle';
+  context.fillText(text, 12, bannerHeight / 2, width - 24);
+};
+
+const canvasToBase64 = (canvas: HTMLCanvasElement): string => canvas.toDataURL('image/png').split(',')[1];
+
+/**
+ * Picks a canned category and attributes from a hash of the image bytes.
+ */
+const classifyClothingItem = async (imageBase64: string, _mimeType: string): Promise<ClothingClassification> => {
+  await wait(MOCK_LATENCY_MS);
+  const hash = hashString(imageBase64);
+  const pick = <T,>(values: T[], salt: number): T => values[(hash >>> salt) % values.length];
+  const color = pick(MOCK_COLORS, 0);
+  const pattern = pick(MOCK_PATTERNS, 3);
+  const fabric = pick(MOCK_FABRICS, 6);
+  return {
+    category: CATEGORY_IDS[hash % CATEGORY_IDS.length],
+    attributes: {
+      dominantColors: [color, pick(MOCK_COLORS, 9)].filter((value, index, all) => all.indexOf(value) === index),
+      pattern,
+      fabric,
+      sleeveStyle: 'n/a',
+      neckline: 'n/a',
+      length: 'n/a',
+      formality: pick(MOCK_FORMALITIES, 12),
+      seasons: [pick(MOCK_SEASONS, 15)],
+      description: `A ${pattern} ${color} ${fabric} piece (mock classification).`,
+    },
+  };
+};
+
+/**
+ * Composites the catalogue items as a strip of thumbnails over the user's photo.
+ */
+const virtualTryOn = async (
+  userImageBase64: string,
+  userImageMimeType: string,
+  catalogueItems: TryOnItem[],
+  presentation: Presentation
+): Promise<string | null> => {
+  await wait(MOCK_LATENCY_MS);
+  const userImage = await loadImageElement(toDataUrl(userImageBase64, userImageMimeType));
+  const [canvas, context] = createCanvas(userImage.naturalWidth, userImage.naturalHeight);
+  context.drawImage(userImage, 0, 0);
+
+  const thumbSize = Math.round(Math.min(canvas.width, canvas.height) / 4);
+  const margin = Math.round(thumbSize / 10);
+  for (const [index, item] of catalogueItems.entries()) {
+    const itemImage = await loadImageElement(toDataUrl(item.image.base64, item.image.mimeType));
+    const x = canvas.width - thumbSize - margin;
+    const y = margin * 5 + index * (thumbSize + margin);
+    context.fillStyle = '#ffffff';
+    context.fillRect(x - 4, y - 4, thumbSize + 8, thumbSize + 8);
+    context.drawImage(itemImage, x, y, thumbSize, thumbSize);
+  }
+
+  drawBanner(context, canvas.width, `MOCK TRY-ON (${presentation}): ${catalogueItems.map(item => item.name).join(', ')}`);
+  return canvasToBase64(canvas);
+};
+
+/**
+ * Applies a fixed sepia filter and stamps the prompt on the image.
+ */
+const editImage = async (imageBase64: string, mimeType: string, prompt: string): Promise<string | null> => {
+  await wait(MOCK_LATENCY_MS);
+  const image = await loadImageElement(toDataUrl(imageBase64, mimeType));
+  const [canvas, context] = createCanvas(image.naturalWidth, image.naturalHeight);
+  context.filter = 'sepia(0.8) contrast(1.1)';
+  context.drawImage(image, 0, 0);
+  context.filter = 'none';
+  drawBanner(context, canvas.width, `MOCK EDIT: ${prompt}`);
+  return canvasToBase64(canvas);
+};
+
+/**
+ * Redraws the photo on white as it is, leaving the backdrop to the local cleanup pass.
+ */
+const cutoutGarment = async (imageBase64: string, mimeType: string): Promise<string | null> => {
+  await wait(MOCK_LATENCY_MS);
+  const image = await loadImageElement(toDataUrl(imageBase64, mimeType));
+  const [canvas, context] = createCanvas(image.naturalWidth, image.naturalHeight);
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0);
+  return canvasToBase64(canvas);
+};
+
+interface MockVideoOperation {
+  imageBase64: string;
+  mimeType: string;
+  aspectRatio: '16:9' | '9:16';
+  resolution: '720p' | '1080p';
+  startedAt: number;
+}
+
+// In-memory only, so unlike real Veo operations these do not survive a page reload.
+const mockVideoOperations = new Map<string, MockVideoOperation>();
+
+const getMockVideoOperation = (operationName: string): MockVideoOperation => {
+  const operation = mockVideoOperations.get(operationName);
+  if (!operation) {
+    throw new ServiceError('unknown', "This mock video job is no longer available. Mock jobs do not survive a page reload.");
+  }
+  return operation;
+};
+
+const startVideo = async (
+  imageBase64: string,
+  mimeType: string,
+  _prompt: string,
+  aspectRatio: '16:9' | '9:16',
+  resolution: '720p' | '1080p'
+): Promise<string> => {
+  await wait(MOCK_LATENCY_MS);
+  const operationName = `mock-operations/${hashString(imageBase64).toString(16)}-${Date.now()}`;
+  mockVideoOperations.set(operationName, { imageBase64, mimeType, aspectRatio, resolution, startedAt: Date.now() });
+  return operationName;
+};
+
+/**
+ * Reports the operation as done once MOCK_VIDEO_RENDER_MS has passed, so progress UI can be exercised.
+ */
+const pollVideo = async (operationName: string): Promise<VideoOperationStatus> => {
+  const operation = getMockVideoOperation(operationName);
+  return { done: Date.now() - operation.startedAt >= MOCK_VIDEO_RENDER_MS };
+};
+
+/**
+ * Records a short slow-zoom clip of the image with MediaRecorder and returns it as an Object URL.
+ */
+const fetchVideo = async (operationName: string): Promise<string> => {
+  const { imageBase64, mimeType, aspectRatio, resolution } = getMockVideoOperation(operationName);
+  const image = await loadImageElement(toDataUrl(imageBase64, mimeType));
+  // Keep the mock clip small regardless of the requested resolution.
+  const shortSide = resolution === '1080p' ? 540 : 360;
+  const longSide = Math.round(shortSide * 16 / 9);
+  const [width, height] = aspectRatio === '16:9' ? [longSide, shortSide] : [shortSide, longSide];
+  const [canvas, context] = createCanvas(width, height);
+
+  const stream = canvas.captureStream(MOCK_VIDEO_FPS);
+  // Safari records MP4 only, so let the browser pick and label the clip with what it produced.
+  const preferredType = ['video/webm', 'video/mp4'].find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, preferredType ? { mimeType: preferredType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const coverScale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const frameCount = Math.round(MOCK_VIDEO_DURATION_MS / 1000 * MOCK_VIDEO_FPS);
+  recorder.start();
+  for (let frame = 0; frame < frameCount; frame++) {
+    const scale = coverScale * (1 + 0.15 * frame / frameCount);
+    const drawWidth = image.naturalWidth * scale;
+    const drawHeight = image.naturalHeight * scale;
+    context.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+    drawBanner(context, width, 'MOCK VIDEO');
+    await wait(1000 / MOCK_VIDEO_FPS);
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(track => track.stop());
+  mockVideoOperations.delete(operationName);
+
+  return URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType || chunks[0]?.type || preferredType || '' }));
+};
+
+export const mockProvider: GenerationProvider = {
+  name: 'mock',
+  requiresApiKeySelection: false,
+  models: { classification: 'mock-classifier', image: 'mock-compositor', video: 'mock-recorder' },
+  classifyClothingItem,
+  virtualTryOn,
+  editImage,
+  cutoutGarment,
+  startVideo,
+  pollVideo,
+  fetchVideo,
+  videoPollIntervalMs: 1000,
+};
@@ -0,0 +1,176 @@
+import { RequestJob } from "../types";
+import { CancelledError, ServiceError } from "./errors";
+
+export interface SchedulerOptions {
+  concurrency: number; // max requests in flight at once
+  requestsPerMinute: number; // token bucket refill rate
+  burst: number; // token bucket capacity
+  maxRetries: number; // retries after the first attempt, for retryable errors only
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+export interface ScheduleOptions {
+  label: string;
+  onUpdate?: (update: RequestJob) => void;
+}
+
+// Tuned for the Gemini free tier; the old hardcoded 4.5s gap between classifications was ~13/min.
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 2,
+  requestsPerMinute: 12,
+  burst: 3,
+  maxRetries: 4,
+  baseBackoffMs: 2000,
+  maxBackoffMs: 30000,
+};
+
+interface Job {
+  update: RequestJob;
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  onUpdate?: (update: RequestJob) => void;
+}
+
+/**
+ * Creates a scheduler that runs AI requests with bounded concurrency, token-bucket rate limiting
+ * and exponential backoff on retryable errors. Every job's status is published to subscribers.
+ */
+export const createRequestScheduler = (initialOptions: SchedulerOptions) => {
+  let options = { ...initialOptions };
+  const queue: Job[] = [];
+  const jobs = new Map<string, RequestJob>();
+  const listeners = new Set<(jobs: RequestJob[]) => void>();
+  let running = 0;
+  let tokens = options.burst;
+  let lastRefill = Date.now();
+  let refillTimer: ReturnType<typeof setTimeout> | null = null;
+  let nextId = 0;
+
+  const notify = () => {
+    const snapshot = Array.from(jobs.values());
+    listeners.forEach(listener => listener(snapshot));
+  };
+
+  const setJobState = (job: Job, changes: Partial<RequestJob>) => {
+    job.update = { ...job.update, ...changes };
+    jobs.set(job.update.id, job.update);
+    job.onUpdate?.(job.update);
+    notify();
+  };
+
+  const refillTokens = () => {
+    const now = Date.now();
+    const perMs = options.requestsPerMinute / 60000;
+    tokens = Math.min(options.burst, tokens + (now - lastRefill) * perMs);
+    lastRefill = now;
+  };
+
+  const backoffDelay = (attempt: number) => {
+    const exponential = Math.min(options.maxBackoffMs, options.baseBackoffMs * 2 ** (attempt - 1));
+    // Equal jitter (half fixed, half random) keeps a batch of throttled jobs from retrying in
+    // lockstep while still guaranteeing each waits at least half the backoff.
+    return Math.round(exponential / 2 + Math.random() * exponential / 2);
+  };
+
+  const execute = async (job: Job) => {
+    running++;
+    setJobState(job, { status: 'running', attempt: job.update.attempt + 1, nextRetryAt: null });
+    try {
+      const value = await job.run();
+      setJobState(job, { status: 'succeeded', error: null });
+      // Succeeded jobs need no further attention in the UI.
+      jobs.delete(job.update.id);
+      notify();
+      job.resolve(value);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Request failed.';
+      // Only errors the provider marked as retryable (quota, 503, network) are retried.
+      if (error instanceof ServiceError && error.retryable && job.update.attempt <= options.maxRetries) {
+        const delay = backoffDelay(job.update.attempt);
+        setJobState(job, { status: 'retrying', error: message, nextRetryAt: Date.now() + delay });
+        setTimeout(() => {
+          setJobState(job, { status: 'queued', nextRetryAt: null });
+          queue.push(job);
+          pump();
+        }, delay);
+      } else if (error instanceof CancelledError) {
+        // The caller gave up on the request; there is nothing for the user to act on.
+        jobs.delete(job.update.id);
+        notify();
+        job.reject(error);
+      } else {
+        setJobState(job, { status: 'failed', error: message });
+        job.reject(error);
+      }
+    } finally {
+      running--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    refillTokens();
+    while (running < options.concurrency && queue.length > 0 && tokens >= 1) {
+      tokens -= 1;
+      execute(queue.shift()!);
+    }
+    if (queue.length > 0 && running < options.concurrency && tokens < 1 && !refillTimer) {
+      const waitMs = Math.ceil((1 - tokens) / (options.requestsPerMinute / 60000));
+      refillTimer = setTimeout(() => {
+        refillTimer = null;
+        pump();
+      }, waitMs);
+    }
+  };
+
+  return {
+    /**
+     * Queues a request. The returned promise settles with the task's final outcome after retries.
+     */
+    schedule<T>(task: () => Promise<T>, { label, onUpdate }: ScheduleOptions): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        const job: Job = {
+          update: { id: `job-${++nextId}`, label, status: 'queued', attempt: 0, error: null, nextRetryAt: null },
+          run: task,
+          resolve: resolve as (value: unknown) => void,
+          reject,
+          onUpdate,
+        };
+        setJobState(job, {});
+        queue.push(job);
+        pump();
+      });
+    },
+
+    subscribe(listener: (jobs: RequestJob[]) => void): () => void {
+      listeners.add(listener);
+      listener(Array.from(jobs.values()));
+      return () => { listeners.delete(listener); };
+    },
+
+    /**
+     * Removes failed jobs from the published list.
+     */
+    clearFinished() {
+      jobs.forEach((job, id) => { if (job.status === 'failed') jobs.delete(id); });
+      notify();
+    },
+
+    getOptions(): SchedulerOptions {
+      return { ...options };
+    },
+
+    configure(changes: Partial<SchedulerOptions>) {
+      options = { ...options, ...changes };
+      tokens = Math.min(tokens, options.burst);
+      pump();
+    },
+  };
+};
+
+export type RequestScheduler = ReturnType<typeof createRequestScheduler>;
+
+// The scheduler shared by every AI call in the app, so all of them count against one budget.
+export const requestScheduler = createRequestScheduler(DEFAULT_SCHEDULER_OPTIONS);
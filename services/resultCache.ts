@@ -0,0 +1,167 @@
+import { openDatabase, requestToPromise, transactionDone } from "../utils/indexedDb";
+import { sha256Hex } from "../utils/hash";
+
+export type CachedResultKind = 'classify' | 'try-on' | 'edit';
+
+interface CacheEntry {
+  key: string;
+  value: string; // A category for classifications, base64 PNG data for images
+}
+
+// Kept in a separate store so eviction can scan sizes and access times without loading images.
+interface CacheMeta {
+  key: string;
+  kind: CachedResultKind;
+  size: number; // Approximate bytes of the cached value
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+const DB_NAME = 'style_studio_result_cache';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const META_STORE = 'meta';
+
+// Least-recently-used entries are evicted past these limits; anything older than the TTL is dropped.
+const MAX_ENTRIES = 500;
+const MAX_BYTES = 150 * 1024 * 1024;
+const TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+      db.createObjectStore(META_STORE, { keyPath: 'key' });
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * Builds a content-addressed key. Image data is hashed on its own first so the final key
+ * material stays small; the key changes whenever any input, the provider or the model changes.
+ * @param kind The operation being cached.
+ * @param parts Every non-image input that affects the result: provider, model, item ids, prompt...
+ * @param images Base64 image inputs, hashed by content.
+ */
+export const computeCacheKey = async (
+  kind: CachedResultKind,
+  parts: Record<string, unknown>,
+  images: string[]
+): Promise<string> => {
+  const imageHashes = await Promise.all(images.map(sha256Hex));
+  return sha256Hex(JSON.stringify({ kind, ...parts, imageHashes }));
+};
+
+const evict = async (db: IDBDatabase) => {
+  const transaction = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+  const metaStore = transaction.objectStore(META_STORE);
+  const entriesStore = transaction.objectStore(ENTRIES_STORE);
+  const metas = (await requestToPromise(metaStore.getAll())) as CacheMeta[];
+  metas.sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+  const now = Date.now();
+  let count = metas.length;
+  let bytes = metas.reduce((total, meta) => total + meta.size, 0);
+  for (const meta of metas) {
+    const expired = now - meta.createdAt > TTL_MS;
+    if (!expired && count <= MAX_ENTRIES && bytes <= MAX_BYTES) {
+      break;
+    }
+    metaStore.delete(meta.key);
+    entriesStore.delete(meta.key);
+    count--;
+    bytes -= meta.size;
+  }
+  await transactionDone(transaction);
+};
+
+/**
+ * Looks up a cached result and marks it as recently used.
+ * @returns The cached value, or null on a miss, an expired entry or a storage error.
+ */
+export const getCachedResult = async (key: string): Promise<string | null> => {
+  try {
+    const db = await getDb();
+    const transaction = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+    const entry = (await requestToPromise(transaction.objectStore(ENTRIES_STORE).get(key))) as CacheEntry | undefined;
+    const meta = (await requestToPromise(transaction.objectStore(META_STORE).get(key))) as CacheMeta | undefined;
+    if (!entry || !meta || Date.now() - meta.createdAt > TTL_MS) {
+      return null;
+    }
+    transaction.objectStore(META_STORE).put({ ...meta, lastAccessedAt: Date.now() });
+    await transactionDone(transaction);
+    return entry.value;
+  } catch (error) {
+    console.error("Could not read from the result cache:", error);
+    return null;
+  }
+};
+
+/**
+ * Stores a result and evicts old entries if the cache is over its limits.
+ * Failures are logged and swallowed; caching is never allowed to break a generation.
+ */
+export const putCachedResult = async (key: string, kind: CachedResultKind, value: string): Promise<void> => {
+  try {
+    const db = await getDb();
+    const now = Date.now();
+    const transaction = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).put({ key, value } as CacheEntry);
+    transaction.objectStore(META_STORE).put({ key, kind, size: value.length, createdAt: now, lastAccessedAt: now } as CacheMeta);
+    await transactionDone(transaction);
+    await evict(db);
+  } catch (error) {
+    console.error("Could not write to the result cache:", error);
+  }
+};
+
+/**
+ * Returns a cached result when there is one, otherwise computes and stores it.
+ * With `bypass`, the cache is not read but the fresh result still replaces the cached one.
+ */
+export const withResultCache = async <T extends string | null>(
+  kind: CachedResultKind,
+  key: string,
+  compute: () => Promise<T>,
+  { bypass }: { bypass: boolean }
+): Promise<T> => {
+  if (!bypass) {
+    const cached = await getCachedResult(key);
+    if (cached !== null) {
+      return cached as T;
+    }
+  }
+  const result = await compute();
+  if (result) {
+    await putCachedResult(key, kind, result);
+  }
+  return result;
+};
+
+export const getResultCacheStats = async (): Promise<CacheStats> => {
+  try {
+    const db = await getDb();
+    const metas = (await requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).getAll())) as CacheMeta[];
+    return { entries: metas.length, bytes: metas.reduce((total, meta) => total + meta.size, 0) };
+  } catch (error) {
+    console.error("Could not read result cache stats:", error);
+    return { entries: 0, bytes: 0 };
+  }
+};
+
+export const clearResultCache = async (): Promise<void> => {
+  const db = await getDb();
+  const transaction = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+  transaction.objectStore(ENTRIES_STORE).clear();
+  transaction.objectStore(META_STORE).clear();
+  await transactionDone(transaction);
+};
@@ -0,0 +1,68 @@
+import { VideoJob } from "../types";
+import { GenerationProvider } from "./generationProvider";
+import { CancelledError, ServiceError, TimeoutError } from "./errors";
+
+// Veo fast usually finishes in one to two minutes; used only for the progress estimate.
+export const VIDEO_ESTIMATED_DURATION_MS = 90 * 1000;
+export const DEFAULT_VIDEO_MAX_WAIT_MS = 10 * 60 * 1000;
+export const VIDEO_MAX_WAIT_OPTIONS_MS = [5 * 60 * 1000, 10 * 60 * 1000, 20 * 60 * 1000];
+// Video operations cannot be cancelled upstream; aborting only stops this client polling.
+const STOPPED_WAITING_MESSAGE = "Stopped waiting for the video. The service may still finish rendering it, but it will not be shown.";
+
+/**
+ * Resolves after `ms`, or rejects with a CancelledError as soon as the signal aborts.
+ */
+const sleep = (ms: number, signal: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal.aborted) {
+    reject(new CancelledError(STOPPED_WAITING_MESSAGE));
+    return;
+  }
+  const timeout = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timeout);
+    reject(new CancelledError(STOPPED_WAITING_MESSAGE));
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Polls a started video job until it finishes, then fetches the video.
+ * Works the same for a freshly started job and one resumed after a reload, since both are
+ * identified only by the persisted operation name and start time.
+ * @returns An Object URL for the finished video.
+ */
+export const waitForVideo = async (
+  provider: GenerationProvider,
+  job: VideoJob,
+  signal: AbortSignal
+): Promise<string> => {
+  while (true) {
+    if (signal.aborted) {
+      throw new CancelledError(STOPPED_WAITING_MESSAGE);
+    }
+    if (Date.now() - job.startedAt > job.maxWaitMs) {
+      throw new TimeoutError(`The video was not ready after ${Math.round(job.maxWaitMs / 60000)} minutes, so we stopped waiting. Try again, or allow a longer maximum wait.`);
+    }
+    try {
+      const { done } = await provider.pollVideo(job.operationName);
+      if (done) {
+        break;
+      }
+    } catch (error) {
+      // A dropped poll is not a failed video; keep polling through transient errors.
+      if (!(error instanceof ServiceError && error.retryable)) {
+        throw error;
+      }
+      console.warn("Transient error while polling video job, will retry:", error);
+    }
+    await sleep(provider.videoPollIntervalMs, signal);
+  }
+
+  if (signal.aborted) {
+    throw new CancelledError(STOPPED_WAITING_MESSAGE);
+  }
+  return provider.fetchVideo(job.operationName);
+};
@@ -0,0 +1,105 @@
+import { FilterItem } from './types';
+
+// Where on the body a category's items go, from which the outfit rules below are derived:
+// - 'full-body' items (dresses, sarees...) are a complete look on their own and exclude tops and bottoms
+// - 'top' and 'bottom' items pair up when no full-body item is chosen
+// - 'extra' items (shoes, bags...) are added on top of any look
+export type CategoryKind = 'full-body' | 'top' | 'bottom' | 'extra';
+
+export interface CategoryDefinition {
+  id: string; // Stored on every item, so never rename one that has shipped
+  label: string;
+  kind: CategoryKind;
+  // Tells the classifier what belongs here; it becomes part of the prompt.
+  description: string;
+  // Sub-categories are shown inside their parent's tab and are chosen over it when they fit.
+  parent?: string;
+}
+
+// The single definition of the catalogue's categories, in display order. The classifier prompt and
+// schema, the catalogue tabs, the empty catalogue and the empty selection are all generated from it.
+export const CATEGORY_TAXONOMY: CategoryDefinition[] = [
+  { id: 'outfits', label: 'Outfits', kind: 'full-body', description: 'a single item that covers both the top and bottom of the body, like a dress, jumpsuit or suit' },
+  { id: 'sarees', label: 'Sarees', kind: 'full-body', parent: 'outfits', description: 'a saree, with or without its blouse' },
+  { id: 'tops', label: 'Tops', kind: 'top', description: 'shirts, t-shirts, blouses, kurtas, sweaters and other upper-body garments' },
+  { id: 'outerwear', label: 'Outerwear', kind: 'extra', parent: 'tops', description: 'jackets, coats, blazers and cardigans worn over another top' },
+  { id: 'bottoms', label: 'Bottoms', kind: 'bottom', description: 'trousers, jeans, skirts, shorts and other lower-body garments' },
+  { id: 'footwear', label: 'Footwear', kind: 'extra', description: 'shoes, sandals, boots and other footwear' },
+  { id: 'headwear', label: 'Headwear', kind: 'extra', description: 'hats, caps, headbands and other headwear' },
+  { id: 'accessories', label: 'Accessories', kind: 'extra', description: 'belts, scarves, watches and other accessories not covered by a more specific category' },
+  { id: 'bags', label: 'Bags', kind: 'extra', parent: 'accessories', description: 'handbags, clutches, backpacks and totes' },
+  { id: 'jewelry', label: 'Jewelry', kind: 'extra', parent: 'accessories', description: 'necklaces, earrings, bracelets and rings' },
+  { id: 'eyewear', label: 'Eyewear', kind: 'extra', parent: 'accessories', description: 'sunglasses and glasses' },
+];
+
+export const CATEGORY_IDS = CATEGORY_TAXONOMY.map(category => category.id);
+
+/**
+ * Lists the ids of every category of one kind.
+ */
+export const getCategoryIdsOfKind = (kind: CategoryKind): string[] =>
+  CATEGORY_TAXONOMY.filter(category => category.kind === kind).map(category => category.id);
+
+// How items from different categories go together in a look. Used both when selecting items and
+// when turning a selection into looks to try on; `utils/outfitRules.ts` applies them.
+export interface OutfitRules {
+  // Categories that share one slot: a look has at most one item from all of them together.
+  sharedSlots: string[][];
+  // Picking an item on one side clears the other side's selection; a look never mixes the two.
+  exclusions: { between: string[]; and: string[] }[];
+  // Categories whose selected items are all worn at once in every look, instead of one per look.
+  wornTogether: string[];
+  // Categories worn over another. A layer only joins looks that include something it can go over.
+  layers: { category: string; over: string[] }[];
+}
+
+export const OUTFIT_RULES: OutfitRules = {
+  sharedSlots: [getCategoryIdsOfKind('full-body')],
+  exclusions: [{ between: getCategoryIdsOfKind('full-body'), and: [...getCategoryIdsOfKind('top'), ...getCategoryIdsOfKind('bottom')] }],
+  // A belt, a scarf and a watch are worn at once, as are several pieces of jewelry. Bags and eyewear
+  // stay one per look: several selected are alternatives, not a single look.
+  wornTogether: ['accessories', 'jewelry'],
+  layers: [{ category: 'outerwear', over: ['tops', 'outfits'] }],
+};
+
+// The categories that get their own catalogue tab.
+export const TOP_LEVEL_CATEGORIES = CATEGORY_TAXONOMY.filter(category => !category.parent);
+
+const CATEGORIES_BY_ID = new Map(CATEGORY_TAXONOMY.map(category => [category.id, category]));
+
+/**
+ * Looks up a category's definition.
+ * @returns The definition, or undefined for a category this version of the app does not know.
+ */
+export const getCategory = (id: string): CategoryDefinition | undefined => CATEGORIES_BY_ID.get(id);
+
+/**
+ * Lists the sub-categories of a top-level category, in display order.
+ */
+export const getSubcategories = (parentId: string): CategoryDefinition[] =>
+  CATEGORY_TAXONOMY.filter(category => category.parent === parentId);
+
+/**
+ * Names a category for display, e.g. "Accessories › Bags" for a sub-category.
+ */
+export const getCategoryPath = (id: string): string => {
+  const category = getCategory(id);
+  if (!category) return id;
+  const parent = category.parent ? getCategory(category.parent) : undefined;
+  return parent ? `${parent.label} › ${category.label}` : category.label;
+};
+
+/**
+ * Creates a record with an empty item list for every category, used for new catalogues and selections.
+ */
+export const createEmptyCategoryRecord = (): Record<string, FilterItem[]> =>
+  Object.fromEntries(CATEGORY_IDS.map(id => [id, []]));
+
+/**
+ * Describes every category for the classifier prompt, one per line, sub-categories marked as such.
+ */
+export const describeCategoriesForClassifier = (): string =>
+  CATEGORY_TAXONOMY.map(category => {
+    const parent = category.parent ? getCategory(category.parent) : undefined;
+    return `- "${category.id}"${parent ? ` (a more specific kind of "${parent.id}")` : ''}: ${category.description}`;
+  }).join('\n');
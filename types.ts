@@ -4,22 +4,208 @@ export interface UploadedImage {
   mimeType: string;
   url: string; // Object URL for preview
   name: string;
+  thumbnailUrl?: string; // Object URL of a small copy for grids; falls back to `url`
+  perceptualHash?: string; // Fingerprint for spotting re-uploads of the same photo
+  provenance?: Provenance; // Only on images the studio generated
+  lineage?: ImageLineage; // Set on workspace images; catalogue images have none
+}
+
+// Where a workspace image sits in its edit history. Ids are stable across reloads, unlike object URLs.
+export interface ImageLineage {
+  id: string;
+  parentId: string | null; // The workspace image this one was generated from; null for photos
+  operation: string; // What produced it, e.g. "Uploaded" or "Edit: add a retro filter"
+}
+
+// A garment as it was when a look was generated; the catalogue item may since have been renamed or deleted.
+export interface ProvenanceItem {
+  id: string;
+  name: string;
+  category: string;
+  wornOver?: string;
+}
+
+// What produced a generated image or video, so a result can be traced back to the exact garments and settings.
+export interface Provenance {
+  kind: 'try-on' | 'edit' | 'video';
+  provider: string;
+  model: string;
+  promptTemplateVersion: number; // See PROMPT_TEMPLATE_VERSIONS in constants.ts
+  presentation?: Presentation; // Try-on only
+  items?: ProvenanceItem[]; // Try-on only
+  prompt?: string; // Edit and video only: the user's instruction
+  source: { name: string; sha256: string }; // The photo the image was generated from
+  createdAt: number; // Epoch ms
+  durationMs: number; // From the job starting to the result arriving
+  // Set when the result was served from the result cache; every other field describes the
+  // generation that first produced it.
+  cached?: boolean;
+}
+
+export type Formality = 'casual' | 'smart-casual' | 'business' | 'formal' | 'festive';
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+// Structured description of a garment, extracted by the AI at upload time and editable by stylists
+export interface GarmentAttributes {
+  dominantColors: string[]; // Plain color names, most prominent first
+  pattern: string; // e.g. "solid", "striped", "floral"
+  fabric: string;
+  sleeveStyle: string; // "n/a" where it does not apply (e.g. footwear)
+  neckline: string;
+  length: string; // e.g. "cropped", "knee-length", "ankle-length"
+  formality: Formality;
+  seasons: Season[];
+  description: string; // One short sentence
+}
+
+// What the classifier returns for an uploaded garment photo
+export interface ClothingClassification {
+  category: string;
+  attributes: GarmentAttributes;
 }
 
 export interface FilterItem {
-  id: string; // A unique identifier, e.g., timestamp + filename
+  id: string; // A unique identifier; a random UUID for new uploads
   name: string;
   image: UploadedImage;
+  // The garment with its background flattened and cropped; sent to the model instead of `image`.
+  cleanedImage?: UploadedImage;
+  attributes?: GarmentAttributes; // Missing for items added before attribute extraction existed
 }
 
 export interface TryOnItem extends FilterItem {
   category: string;
+  wornOver?: string; // For layers such as a jacket: the name of the item it goes over
+}
+
+// How the person in the photo presents; tells the try-on model whose body the clothes go on.
+// Chosen separately from the wardrobe being browsed.
+export type Presentation = 'female' | 'male' | 'neutral';
+
+export type CameraResolution = '720p' | '1080p' | '4k';
+
+// The live camera's settings, remembered between visits.
+export interface CameraSettings {
+  deviceId: string | null; // null uses the browser's default front camera
+  resolution: CameraResolution;
+  mirror: boolean; // Flips both the preview and the captured photo, like a mirror
+  timerSeconds: number; // 0 captures straight away
+  burstCount: number; // 1 captures a single frame
+}
+
+// A named catalogue, e.g. one per client or per collection.
+export interface Wardrobe {
+  id: string;
+  name: string;
+  createdAt: number; // Epoch ms
+}
+
+// Recorded when a user moves an item out of the category the classifier chose for it.
+export interface CategoryCorrection {
+  itemId: string;
+  itemName: string;
+  fromCategory: string;
+  toCategory: string;
+  description: string; // The item's attribute description at the time, if any
+  correctedAt: number; // Epoch ms
 }
 
+// A past correction passed to the classifier as an example, so it stops repeating the mistake.
+export type ClassificationHint = Pick<CategoryCorrection, 'description' | 'fromCategory' | 'toCategory'>;
+
+// A named selection of catalogue items that can be re-applied in one click
+export interface SavedLook {
+  id: string;
+  name: string;
+  wardrobeId: string;
+  // Items are referenced by id and found wherever they are at apply time, so moves don't break a look.
+  itemIds: string[];
+  thumbnail: string | null; // Small JPEG data URL of a try-on result, if one was chosen
+  createdAt: number; // Epoch ms
+}
+
+// What to do with an upload that looks like a style already in the catalogue or being added.
+export type DuplicateResolution = 'skip' | 'replace' | 'keep-both';
+
 // Represents an item during the AI classification process
 export interface ClassifyingItem {
   id: string;
   name: string;
   url: string; // Object URL for preview
+  // 'duplicate' means the upload is waiting for the user to choose a DuplicateResolution.
+  status: RequestJobStatus | 'duplicate';
+  error: string | null;
+  duplicateOf?: {
+    name: string;
+    url: string;
+    // Only catalogue items can be replaced; an upload still in flight has nothing to replace yet.
+    inCatalogue: boolean;
+  };
+}
+
+// A new catalogue item whose background was cleaned up on upload, until the user has compared
+// the two and chosen which to keep.
+export interface CleanupReview {
+  itemId: string;
+  wardrobeId: string;
+  name: string;
+  originalUrl: string;
+  cleanedUrl: string;
+}
+
+export type RequestJobStatus = 'queued' | 'running' | 'retrying' | 'succeeded' | 'failed';
+
+// A single AI request as tracked by the request scheduler
+export interface RequestJob {
+  id: string;
+  label: string;
+  status: RequestJobStatus;
+  attempt: number; // 1-based number of the current (or last) attempt
+  error: string | null;
+  nextRetryAt: number | null; // Epoch ms, set while status is 'retrying'
+}
+
+export type GenerationJobKind = 'try-on' | 'edit' | 'video';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// One try-on look, edit or video as tracked by the job manager. A job may make several
+// scheduler requests (retries, video polling); this is the unit the user sees and controls.
+export interface GenerationJob {
+  id: string;
+  batchId: string; // Shared by every job started by the same click
+  kind: GenerationJobKind;
+  label: string;
+  status: GenerationJobStatus;
   error: string | null;
+  attempt: number; // 1-based; goes up each time the user retries the job
+  createdAt: number; // Epoch ms
+  finishedAt: number | null; // Epoch ms, set once the job succeeds, fails or is cancelled
+}
+
+// A Veo generation in progress, persisted so a reloaded session can resume polling for it.
+export interface VideoJob {
+  operationName: string;
+  provider: string; // Name of the generation provider that started the operation
+  startedAt: number; // Epoch ms
+  maxWaitMs: number;
+  prompt: string;
+  sourceImageName: string;
+  provenance?: Provenance; // As recorded at the start; missing for jobs saved before videos had provenance
+}
+
+// A finished video as shown in the results.
+export interface GeneratedVideo {
+  url: string; // Object URL
+  provenance?: Provenance; // Missing for videos made before provenance was recorded
+}
+
+// The key picker injected by the AI Studio host page.
+declare global {
+  interface Window {
+    aistudio: {
+      hasSelectedApiKey: () => Promise<boolean>;
+      openSelectKey: () => Promise<void>;
+    };
+  }
 }
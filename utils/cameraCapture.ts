@@ -0,0 +1,123 @@
+import { CameraResolution, CameraSettings, UploadedImage } from '../types';
+import { readFileAsBase64 } from './imageUtils';
+import { PHOTO_INGEST_OPTIONS } from './imageIngest';
+
+export const CAMERA_RESOLUTIONS: Record<CameraResolution, { label: string; width: number; height: number }> = {
+  '720p': { label: 'HD (720p)', width: 1280, height: 720 },
+  '1080p': { label: 'Full HD (1080p)', width: 1920, height: 1080 },
+  '4k': { label: '4K (2160p)', width: 3840, height: 2160 },
+};
+
+export const SELF_TIMER_OPTIONS = [0, 3, 5, 10];
+export const BURST_OPTIONS = [1, 3, 5, 8];
+// Far enough apart that frames differ in pose and blur, close enough to stay one pose.
+export const BURST_INTERVAL_MS = 300;
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  resolution: '1080p',
+  mirror: true,
+  timerSeconds: 0,
+  burstCount: 1,
+};
+
+/**
+ * Completes saved settings with defaults, dropping values the current options no longer offer.
+ * @param saved The settings as stored, possibly partial or out of date.
+ * @returns A full set of settings.
+ */
+export const normalizeCameraSettings = (saved: Partial<CameraSettings>): CameraSettings => ({
+  deviceId: typeof saved.deviceId === 'string' ? saved.deviceId : null,
+  resolution: saved.resolution && saved.resolution in CAMERA_RESOLUTIONS ? saved.resolution : DEFAULT_CAMERA_SETTINGS.resolution,
+  mirror: typeof saved.mirror === 'boolean' ? saved.mirror : DEFAULT_CAMERA_SETTINGS.mirror,
+  timerSeconds: SELF_TIMER_OPTIONS.includes(saved.timerSeconds as number) ? saved.timerSeconds as number : DEFAULT_CAMERA_SETTINGS.timerSeconds,
+  burstCount: BURST_OPTIONS.includes(saved.burstCount as number) ? saved.burstCount as number : DEFAULT_CAMERA_SETTINGS.burstCount,
+});
+
+/**
+ * Builds the video constraints for `getUserMedia`. Resolutions are ideals, so a camera that
+ * cannot reach one still opens at its closest size.
+ * @param settings The camera settings.
+ * @returns The video track constraints.
+ */
+export const buildVideoConstraints = (settings: Pick<CameraSettings, 'deviceId' | 'resolution'>): MediaTrackConstraints => {
+  const { width, height } = CAMERA_RESOLUTIONS[settings.resolution];
+  return {
+    ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: 'user' }),
+    width: { ideal: width },
+    height: { ideal: height },
+  };
+};
+
+/**
+ * Grabs the current video frame as a JPEG, shrunk and encoded like an uploaded photo.
+ * @param video The playing video element.
+ * @param canvas A scratch canvas to draw on.
+ * @param mirror Whether to flip the frame horizontally, to match a mirrored preview.
+ * @returns The captured photo, whose `url` is an object URL owned by the caller.
+ */
+export const captureVideoFrame = async (video: HTMLVideoElement, canvas: HTMLCanvasElement, mirror: boolean): Promise<UploadedImage> => {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+  const scale = Math.min(1, PHOTO_INGEST_OPTIONS.maxDimension / Math.max(video.videoWidth, video.videoHeight));
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  if (mirror) {
+    context.translate(canvas.width, 0);
+    context.scale(-1, 1);
+  }
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob>((resolve, reject) => canvas.toBlob(
+    result => result ? resolve(result) : reject(new Error("The photo could not be encoded.")),
+    PHOTO_INGEST_OPTIONS.mimeType,
+    PHOTO_INGEST_OPTIONS.quality
+  ));
+  return {
+    base64: await readFileAsBase64(blob),
+    mimeType: blob.type || PHOTO_INGEST_OPTIONS.mimeType,
+    url: URL.createObjectURL(blob),
+    name: `live-capture-${Date.now()}.jpg`,
+  };
+};
+
+/**
+ * Scores how sharp a photo is as the variance of its Laplacian, measured on a small greyscale
+ * copy. Motion blur and missed focus both lower it; only compare scores within one burst.
+ * @param image The photo, e.g. a captured frame loaded into an image element.
+ * @returns The score; higher is sharper.
+ */
+export const measureSharpness = (image: HTMLImageElement): number => {
+  const scale = Math.min(1, 256 / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(3, Math.round(image.naturalWidth * scale));
+  const height = Math.max(3, Math.round(image.naturalHeight * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return 0;
+  context.drawImage(image, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const grey = new Float32Array(width * height);
+  for (let i = 0; i < grey.length; i++) {
+    grey[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = grey[i - 1] + grey[i + 1] + grey[i - width] + grey[i + width] - 4 * grey[i];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+};
@@ -0,0 +1,285 @@
+import { FilterItem, Formality, GarmentAttributes, Season, UploadedImage, Wardrobe } from '../types';
+import { base64ToBlob } from './imageUtils';
+import { LEGACY_WARDROBES } from './catalogueStore';
+import { getCategory } from '../taxonomy';
+
+type CatalogueData = Record<string, FilterItem[]>;
+
+// Catalogues keyed by wardrobe id.
+export type CatalogueSet = Record<string, CatalogueData>;
+
+export interface BundledWardrobe {
+  wardrobe: Wardrobe;
+  catalogue: CatalogueData;
+}
+
+// What an import does to the wardrobes already in this browser.
+export type ImportMode = 'merge' | 'replace';
+// What a merge does when an incoming item has the same id as an existing one.
+export type ConflictResolution = 'skip' | 'overwrite' | 'keep-both';
+
+export interface ImportOptions {
+  mode: ImportMode;
+  conflictResolution: ConflictResolution;
+}
+
+export interface ImportSummary {
+  added: number;
+  replaced: number;
+  skipped: number;
+  // Items left out because this app has no tab for their category, and those categories.
+  unsupported: number;
+  unknownCategories: string[];
+}
+
+export interface ImportResult {
+  wardrobes: Wardrobe[];
+  catalogues: CatalogueSet;
+  summary: ImportSummary;
+  // Existing and incoming items that ended up in no catalogue, so the caller can revoke their object URLs.
+  removedItems: FilterItem[];
+}
+
+interface BundleItem {
+  id: string;
+  name: string;
+  imageName: string;
+  mimeType: string;
+  base64: string;
+  cleaned?: { imageName: string; mimeType: string; base64: string };
+  attributes?: unknown; // Checked field by field on import; the file may come from anywhere
+}
+
+type BundleCatalogue = Record<string, BundleItem[]>;
+
+// Bundles are plain JSON with base64 images so they open anywhere and need no zip library.
+// v1 held exactly two catalogues, keyed 'female' and 'male'; v2 holds any number of wardrobes.
+interface CatalogueBundleFile {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  wardrobes?: { id: string; name: string; catalogue: BundleCatalogue }[];
+  catalogues?: Partial<Record<'female' | 'male', BundleCatalogue>>;
+}
+
+const BUNDLE_FORMAT = 'style-studio-catalogue';
+const BUNDLE_VERSION = 2;
+
+/**
+ * Serializes wardrobes, images included, into a downloadable bundle file.
+ * @param wardrobes The wardrobes to export, with their catalogues.
+ * @returns A JSON Blob that `parseCatalogueBundle` can read back.
+ */
+export const createCatalogueBundle = (wardrobes: BundledWardrobe[]): Blob => {
+  const bundle: CatalogueBundleFile = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    wardrobes: wardrobes.map(({ wardrobe, catalogue }) => ({
+      id: wardrobe.id,
+      name: wardrobe.name,
+      catalogue: Object.fromEntries(Object.entries(catalogue).map(([category, items]) => [
+        category,
+        items.filter(item => item.image.base64).map(item => ({
+          id: item.id,
+          name: item.name,
+          imageName: item.image.name,
+          mimeType: item.image.mimeType,
+          base64: item.image.base64,
+          cleaned: item.cleanedImage && {
+            imageName: item.cleanedImage.name,
+            mimeType: item.cleanedImage.mimeType,
+            base64: item.cleanedImage.base64,
+          },
+          attributes: item.attributes,
+        })),
+      ])),
+    })),
+  };
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+};
+
+const FORMALITIES: Formality[] = ['casual', 'smart-casual', 'business', 'formal', 'festive'];
+const SEASONS: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBundleImage = (value: Record<string, unknown>): boolean =>
+  typeof value.mimeType === 'string' && value.mimeType.startsWith('image/')
+  && typeof value.base64 === 'string' && value.base64.length > 0;
+
+const isBundleItem = (value: unknown): value is BundleItem =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' && isBundleImage(value);
+
+/**
+ * Coerces imported attributes to the shape the app relies on, with the classifier's defaults
+ * for fields that are missing or of the wrong type.
+ * @returns The attributes, or undefined if there are none to speak of.
+ */
+const toAttributes = (value: unknown): GarmentAttributes | undefined => {
+  if (!isRecord(value)) return undefined;
+  const text = (field: string, fallback: string) => typeof value[field] === 'string' ? value[field] as string : fallback;
+  const list = (field: string) => Array.isArray(value[field]) ? (value[field] as unknown[]).filter((entry): entry is string => typeof entry === 'string') : [];
+  return {
+    dominantColors: list('dominantColors'),
+    pattern: text('pattern', ''),
+    fabric: text('fabric', ''),
+    sleeveStyle: text('sleeveStyle', 'n/a'),
+    neckline: text('neckline', 'n/a'),
+    length: text('length', 'n/a'),
+    formality: FORMALITIES.includes(value.formality as Formality) ? value.formality as Formality : 'casual',
+    seasons: list('seasons').filter((season): season is Season => SEASONS.includes(season as Season)),
+    description: text('description', ''),
+  };
+};
+
+const toImage = (image: { base64: string; mimeType: string }, name: string): UploadedImage => ({
+  base64: image.base64,
+  mimeType: image.mimeType,
+  url: URL.createObjectURL(base64ToBlob(image.base64, image.mimeType)),
+  name,
+});
+
+const toCatalogue = (source: BundleCatalogue): CatalogueData =>
+  Object.fromEntries(Object.entries(isRecord(source) ? source : {}).map(([category, items]) => [
+    category,
+    (Array.isArray(items) ? items : []).filter(isBundleItem).map(item => {
+      const imageName = typeof item.imageName === 'string' && item.imageName ? item.imageName : item.name;
+      // A malformed cleaned copy is dropped; the item still works from its original photo.
+      const cleaned = isRecord(item.cleaned) && isBundleImage(item.cleaned) ? item.cleaned : undefined;
+      return {
+        id: item.id,
+        name: item.name,
+        image: toImage(item, imageName),
+        cleanedImage: cleaned && toImage(cleaned, typeof cleaned.imageName === 'string' && cleaned.imageName ? cleaned.imageName : imageName),
+        attributes: toAttributes(item.attributes),
+      };
+    }),
+  ]));
+
+/**
+ * Reads a bundle file produced by `createCatalogueBundle`, including the older two-catalogue
+ * format. Malformed items are dropped rather than failing the whole import.
+ * @param file The bundle file chosen by the user.
+ * @returns The wardrobes found in the bundle, with fresh object URLs for every image.
+ */
+export const parseCatalogueBundle = async (file: File): Promise<BundledWardrobe[]> => {
+  let bundle: CatalogueBundleFile;
+  try {
+    bundle = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`"${file.name}" is not a valid catalogue bundle.`);
+  }
+  if (bundle?.format !== BUNDLE_FORMAT) {
+    throw new Error(`"${file.name}" is not a valid catalogue bundle.`);
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new Error("This bundle was made by a newer version of the app. Please update and try again.");
+  }
+
+  if (bundle.version === 1) {
+    return LEGACY_WARDROBES
+      .filter(wardrobe => bundle.catalogues?.[wardrobe.id as 'female' | 'male'])
+      .map(wardrobe => ({ wardrobe, catalogue: toCatalogue(bundle.catalogues![wardrobe.id as 'female' | 'male']!) }));
+  }
+  return (Array.isArray(bundle.wardrobes) ? bundle.wardrobes : [])
+    .filter(entry => typeof entry?.id === 'string' && typeof entry.name === 'string')
+    .map((entry, index) => ({
+      wardrobe: { id: entry.id, name: entry.name, createdAt: Date.now() + index },
+      catalogue: toCatalogue(entry.catalogue),
+    }));
+};
+
+const allItemIds = (catalogues: CatalogueSet): Set<string> =>
+  new Set(Object.values(catalogues).flatMap(catalogue => Object.values(catalogue).flat().map(item => item.id)));
+
+const clearReplacedCatalogues = (existing: CatalogueSet, incoming: BundledWardrobe[]): CatalogueSet => {
+  const result = { ...existing };
+  incoming.forEach(({ wardrobe }) => {
+    if (existing[wardrobe.id]) {
+      result[wardrobe.id] = Object.fromEntries(Object.keys(existing[wardrobe.id]).map(category => [category, []]));
+    }
+  });
+  return result;
+};
+
+/**
+ * Counts incoming items whose ids are already in use, so the user can choose how to resolve them.
+ * Ids are checked across all wardrobes because the catalogue store keys items by id alone.
+ */
+export const countImportConflicts = (existing: CatalogueSet, incoming: BundledWardrobe[], mode: ImportMode): number => {
+  const existingIds = allItemIds(mode === 'replace' ? clearReplacedCatalogues(existing, incoming) : existing);
+  return incoming.reduce((count, { catalogue }) =>
+    count + Object.values(catalogue).flat().filter(item => existingIds.has(item.id)).length, 0);
+};
+
+const removeItemEverywhere = (catalogues: CatalogueSet, id: string): CatalogueSet =>
+  Object.fromEntries(Object.entries(catalogues).map(([wardrobeId, catalogue]) => [
+    wardrobeId,
+    Object.fromEntries(Object.entries(catalogue).map(([category, items]) => [category, items.filter(item => item.id !== id)])),
+  ]));
+
+/**
+ * Applies imported wardrobes to the current ones. Wardrobes are matched by id; unmatched ones
+ * are added. `replace` empties each matched wardrobe first; `merge` keeps its items and resolves
+ * id conflicts as requested. Items in categories unknown to this app are left out and counted,
+ * since no catalogue tab could show them.
+ */
+export const applyCatalogueImport = (
+  existing: { wardrobes: Wardrobe[]; catalogues: CatalogueSet },
+  incoming: BundledWardrobe[],
+  { mode, conflictResolution }: ImportOptions
+): ImportResult => {
+  const wardrobes = [
+    ...existing.wardrobes,
+    ...incoming.map(({ wardrobe }) => wardrobe).filter(wardrobe => !existing.catalogues[wardrobe.id]),
+  ];
+  let catalogues = mode === 'replace' ? clearReplacedCatalogues(existing.catalogues, incoming) : existing.catalogues;
+  const summary: ImportSummary = { added: 0, replaced: 0, skipped: 0, unsupported: 0, unknownCategories: [] };
+  incoming.forEach(({ wardrobe }) => {
+    if (!catalogues[wardrobe.id]) catalogues = { ...catalogues, [wardrobe.id]: {} };
+  });
+
+  incoming.forEach(({ wardrobe, catalogue: incomingCatalogue }) => {
+    Object.entries(incomingCatalogue).forEach(([category, items]) => {
+      if (!getCategory(category)) {
+        if (items.length > 0) {
+          summary.unsupported += items.length;
+          if (!summary.unknownCategories.includes(category)) summary.unknownCategories.push(category);
+        }
+        return;
+      }
+      items.forEach(item => {
+        let itemToAdd = item;
+        if (allItemIds(catalogues).has(item.id)) {
+          if (conflictResolution === 'skip') {
+            summary.skipped++;
+            return;
+          }
+          if (conflictResolution === 'overwrite') {
+            catalogues = removeItemEverywhere(catalogues, item.id);
+            summary.replaced++;
+          } else {
+            itemToAdd = { ...item, id: `${item.id}-import-${Date.now()}-${summary.added}` };
+            summary.added++;
+          }
+        } else {
+          summary.added++;
+        }
+        const catalogue = catalogues[wardrobe.id];
+        catalogues = { ...catalogues, [wardrobe.id]: { ...catalogue, [category]: [...(catalogue[category] || []), itemToAdd] } };
+      });
+    });
+  });
+
+  // Matched by image URL, not id: an overwritten item keeps its id, and a renamed copy shares
+  // the incoming item's URLs.
+  const itemsOf = (set: CatalogueSet) => Object.values(set).flatMap(catalogue => Object.values(catalogue).flat());
+  const keptUrls = new Set(itemsOf(catalogues).map(item => item.image.url));
+  const removedItems = [
+    ...itemsOf(existing.catalogues),
+    ...incoming.flatMap(({ catalogue }) => Object.values(catalogue).flat()),
+  ].filter(item => !keptUrls.has(item.image.url));
+  return { wardrobes, catalogues, summary, removedItems };
+};
@@ -0,0 +1,302 @@
+import { FilterItem, GarmentAttributes, Wardrobe } from '../types';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { base64ToBlob, readFileAsBase64 } from './imageUtils';
+import { loadLegacyCatalogueFromStorage, clearLegacyCatalogueFromStorage } from './storage';
+
+type CatalogueData = Record<string, FilterItem[]>;
+
+// Item metadata is small and loaded in one go; image bytes live in their own store as Blobs.
+interface StoredItem {
+  id: string;
+  wardrobeId: string;
+  category: string;
+  position: number;
+  name: string;
+  imageName: string;
+  mimeType: string;
+  perceptualHash?: string;
+  cleanedImageName?: string;
+  cleanedMimeType?: string;
+  attributes?: GarmentAttributes;
+}
+
+interface StoredImage {
+  id: string;
+  blob: Blob;
+  thumbnail?: Blob; // Missing for items added before uploads were thumbnailed
+  cleaned?: Blob; // The background-cleaned copy, when the item has one
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+const DB_NAME = 'style_studio_catalogue';
+// v2 replaced the fixed female/male split with named wardrobes.
+const DB_VERSION = 2;
+const ITEMS_STORE = 'items';
+const IMAGES_STORE = 'images';
+const WARDROBES_STORE = 'wardrobes';
+const WARDROBE_INDEX = 'wardrobe';
+
+// The two catalogues older versions had become wardrobes with these ids, so nothing is lost on upgrade.
+export const LEGACY_WARDROBES: Wardrobe[] = [
+  { id: 'female', name: 'Female Styles', createdAt: 0 },
+  { id: 'male', name: 'Male Styles', createdAt: 0 },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db, oldVersion, transaction) => {
+      if (oldVersion < 1) {
+        db.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+        db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+      }
+      if (oldVersion < 2) {
+        const items = transaction.objectStore(ITEMS_STORE);
+        if (items.indexNames.contains('gender')) {
+          items.deleteIndex('gender');
+        }
+        items.createIndex(WARDROBE_INDEX, 'wardrobeId');
+        const wardrobes = db.createObjectStore(WARDROBES_STORE, { keyPath: 'id' });
+        if (oldVersion === 1) {
+          LEGACY_WARDROBES.forEach(wardrobe => wardrobes.put(wardrobe));
+          items.openCursor().onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            const { gender, ...item } = cursor.value;
+            cursor.update({ ...item, wardrobeId: gender });
+            cursor.continue();
+          };
+        }
+      }
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// The base64 strings last written for each item id. Saves run on every catalogue change, so this
+// lets them skip rewriting image blobs that have not changed.
+const persistedImages = new Map<string, { image: string; cleaned?: string }>();
+
+const isImagePersisted = (item: FilterItem): boolean => {
+  const persisted = persistedImages.get(item.id);
+  return !!persisted && persisted.image === item.image.base64 && persisted.cleaned === item.cleanedImage?.base64;
+};
+
+// Writes are chained so two quick edits can never interleave their transactions.
+let writeQueue: Promise<void> = Promise.resolve();
+
+const enqueue = (write: () => Promise<void>): Promise<void> => {
+  const queued = writeQueue.then(write);
+  writeQueue = queued.catch(() => undefined);
+  return queued;
+};
+
+// Thumbnails only exist as object URLs in memory, so their bytes are read back for storage.
+const readThumbnail = async (url: string): Promise<Blob | undefined> => {
+  try {
+    return await (await fetch(url)).blob();
+  } catch (error) {
+    console.warn("Could not read a thumbnail for storage; the full image will be used instead.", error);
+    return undefined;
+  }
+};
+
+const writeCatalogue = async (wardrobeId: string, catalogue: CatalogueData): Promise<void> => {
+  const entries = Object.entries(catalogue).flatMap(([category, items]) =>
+    items.map((item, position) => ({ category, position, item }))
+  );
+  // Blobs are built before the transaction opens; awaiting anything else would let it auto-commit.
+  const changedImages: StoredImage[] = await Promise.all(entries
+    .filter(({ item }) => item.image.base64 && !isImagePersisted(item))
+    .map(async ({ item }) => ({
+      id: item.id,
+      blob: base64ToBlob(item.image.base64, item.image.mimeType),
+      thumbnail: item.image.thumbnailUrl ? await readThumbnail(item.image.thumbnailUrl) : undefined,
+      cleaned: item.cleanedImage ? base64ToBlob(item.cleanedImage.base64, item.cleanedImage.mimeType) : undefined,
+    })));
+
+  const db = await getDb();
+  const transaction = db.transaction([ITEMS_STORE, IMAGES_STORE], 'readwrite');
+  const itemsStore = transaction.objectStore(ITEMS_STORE);
+  const imagesStore = transaction.objectStore(IMAGES_STORE);
+
+  const currentIds = new Set(entries.map(({ item }) => item.id));
+  const storedIds = (await requestToPromise(itemsStore.index(WARDROBE_INDEX).getAllKeys(wardrobeId))) as string[];
+  const removedIds = storedIds.filter(id => !currentIds.has(id));
+  removedIds.forEach(id => {
+    itemsStore.delete(id);
+    imagesStore.delete(id);
+  });
+
+  entries.forEach(({ category, position, item }) => {
+    itemsStore.put({
+      id: item.id,
+      wardrobeId,
+      category,
+      position,
+      name: item.name,
+      imageName: item.image.name,
+      mimeType: item.image.mimeType,
+      perceptualHash: item.image.perceptualHash,
+      cleanedImageName: item.cleanedImage?.name,
+      cleanedMimeType: item.cleanedImage?.mimeType,
+      attributes: item.attributes,
+    } as StoredItem);
+  });
+  changedImages.forEach(image => imagesStore.put(image));
+
+  await transactionDone(transaction);
+  removedIds.forEach(id => persistedImages.delete(id));
+  entries.forEach(({ item }) => persistedImages.set(item.id, { image: item.image.base64, cleaned: item.cleanedImage?.base64 }));
+};
+
+/**
+ * Saves a wardrobe's catalogue to IndexedDB, replacing whatever was stored for it.
+ * Only new or changed images are written; items no longer in the catalogue are deleted.
+ * @param wardrobeId The wardrobe the catalogue belongs to.
+ * @param catalogue The catalogue data to save.
+ * @returns A Promise that rejects if the write fails, e.g. because the storage quota is full.
+ */
+export const saveCatalogue = (wardrobeId: string, catalogue: CatalogueData): Promise<void> =>
+  enqueue(() => writeCatalogue(wardrobeId, catalogue));
+
+/**
+ * Moves catalogues saved by the oldest versions of the app out of local storage and into
+ * their wardrobes. The legacy copies are only removed once the new ones have been written.
+ */
+const migrateLegacyCatalogues = async (): Promise<void> => {
+  for (const wardrobe of LEGACY_WARDROBES) {
+    const gender = wardrobe.id as 'female' | 'male';
+    const legacy = loadLegacyCatalogueFromStorage(gender);
+    if (!legacy) continue;
+    await saveWardrobe(wardrobe);
+    await saveCatalogue(wardrobe.id, legacy);
+    clearLegacyCatalogueFromStorage(gender);
+  }
+};
+
+/**
+ * Lists the saved wardrobes, oldest first, migrating any local storage catalogues on first run.
+ * @returns The wardrobes; empty on a fresh install.
+ */
+export const loadWardrobes = async (): Promise<Wardrobe[]> => {
+  await migrateLegacyCatalogues();
+  const db = await getDb();
+  const wardrobes = (await requestToPromise(db.transaction(WARDROBES_STORE).objectStore(WARDROBES_STORE).getAll())) as Wardrobe[];
+  return wardrobes.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Creates a wardrobe or updates its name.
+ * @param wardrobe The wardrobe to save.
+ */
+export const saveWardrobe = (wardrobe: Wardrobe): Promise<void> => enqueue(async () => {
+  const db = await getDb();
+  const transaction = db.transaction(WARDROBES_STORE, 'readwrite');
+  transaction.objectStore(WARDROBES_STORE).put(wardrobe);
+  await transactionDone(transaction);
+});
+
+/**
+ * Deletes a wardrobe together with all of its items and their images.
+ * @param wardrobeId The wardrobe to delete.
+ */
+export const deleteWardrobe = (wardrobeId: string): Promise<void> => enqueue(async () => {
+  const db = await getDb();
+  const transaction = db.transaction([WARDROBES_STORE, ITEMS_STORE, IMAGES_STORE], 'readwrite');
+  const itemsStore = transaction.objectStore(ITEMS_STORE);
+  const itemIds = (await requestToPromise(itemsStore.index(WARDROBE_INDEX).getAllKeys(wardrobeId))) as string[];
+  itemIds.forEach(id => {
+    itemsStore.delete(id);
+    transaction.objectStore(IMAGES_STORE).delete(id);
+  });
+  transaction.objectStore(WARDROBES_STORE).delete(wardrobeId);
+  await transactionDone(transaction);
+  itemIds.forEach(id => persistedImages.delete(id));
+});
+
+/**
+ * Loads a wardrobe's catalogue from IndexedDB.
+ * Object URLs from a previous session are dead after a reload, so fresh ones are created here.
+ * @param wardrobeId The wardrobe to load.
+ * @returns The stored catalogue grouped by category; empty if the wardrobe has no items.
+ */
+export const loadCatalogue = async (wardrobeId: string): Promise<CatalogueData> => {
+  const db = await getDb();
+  const transaction = db.transaction([ITEMS_STORE, IMAGES_STORE], 'readonly');
+  const storedItems = (await requestToPromise(transaction.objectStore(ITEMS_STORE).index(WARDROBE_INDEX).getAll(wardrobeId))) as StoredItem[];
+  const images = (await Promise.all(storedItems.map(item =>
+    requestToPromise(transaction.objectStore(IMAGES_STORE).get(item.id))
+  ))) as (StoredImage | undefined)[];
+
+  const catalogue: CatalogueData = {};
+  const sorted = storedItems
+    .map((item, index) => ({ item, image: images[index] }))
+    .sort((a, b) => a.item.position - b.item.position);
+  for (const { item, image } of sorted) {
+    if (!image) {
+      console.warn(`Catalogue item ${item.id} has no stored image and was skipped.`);
+      continue;
+    }
+    const base64 = await readFileAsBase64(image.blob);
+    const cleanedBase64 = image.cleaned ? await readFileAsBase64(image.cleaned) : undefined;
+    persistedImages.set(item.id, { image: base64, cleaned: cleanedBase64 });
+    (catalogue[item.category] ||= []).push({
+      id: item.id,
+      name: item.name,
+      image: {
+        base64,
+        mimeType: item.mimeType,
+        url: URL.createObjectURL(image.blob),
+        name: item.imageName,
+        thumbnailUrl: image.thumbnail ? URL.createObjectURL(image.thumbnail) : undefined,
+        perceptualHash: item.perceptualHash,
+      },
+      cleanedImage: image.cleaned && cleanedBase64 ? {
+        base64: cleanedBase64,
+        mimeType: item.cleanedMimeType || image.cleaned.type,
+        url: URL.createObjectURL(image.cleaned),
+        name: item.cleanedImageName || item.imageName,
+      } : undefined,
+      attributes: item.attributes,
+    });
+  }
+  return catalogue;
+};
+
+/**
+ * Removes every stored wardrobe and catalogue.
+ */
+export const clearAllCatalogues = (): Promise<void> => enqueue(async () => {
+  const db = await getDb();
+  const transaction = db.transaction([WARDROBES_STORE, ITEMS_STORE, IMAGES_STORE], 'readwrite');
+  transaction.objectStore(WARDROBES_STORE).clear();
+  transaction.objectStore(ITEMS_STORE).clear();
+  transaction.objectStore(IMAGES_STORE).clear();
+  await transactionDone(transaction);
+  persistedImages.clear();
+});
+
+/**
+ * Reports how much of the browser's storage quota this origin is using.
+ * The figure covers everything the app stores, including the result cache.
+ * @returns The usage and quota in bytes, or null if the browser does not report them.
+ */
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) {
+    return null;
+  }
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage === undefined || quota === undefined ? null : { usage, quota };
+  } catch (error) {
+    console.error("Could not estimate storage usage:", error);
+    return null;
+  }
+};
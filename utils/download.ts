@@ -0,0 +1,17 @@
+// How long a download's object URL is kept. Browsers read it after `click()` returns, so revoking
+// straight away can cancel the download; a minute covers slow starts without leaking for long.
+const DOWNLOAD_URL_LIFETIME_MS = 60 * 1000;
+
+/**
+ * Saves a blob as a file through a temporary link.
+ * @param blob The file contents.
+ * @param filename The name to save it under.
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
@@ -0,0 +1,125 @@
+import { FilterItem, UploadedImage } from '../types';
+import { loadImageElement, readFileAsBase64, toDataUrl } from './imageUtils';
+import { GARMENT_INGEST_OPTIONS } from './imageIngest';
+import { getGenerationProvider } from '../services/generationProvider';
+import { requestScheduler } from '../services/requestScheduler';
+import type { PixelPassRequest, PixelPassResult } from './garmentCleanup.worker';
+
+// Margin left around the garment when cropping, as a share of its longer side.
+const CROP_PADDING = 0.04;
+
+/**
+ * Asks the generation provider to cut the garment out of its photo, so hangers, mannequins and
+ * cluttered backgrounds go as well as plain backdrops.
+ * @param image The ingested garment photo.
+ * @returns A URL for the cutout, or null if the provider could not make one.
+ */
+const cutOutGarment = async (image: UploadedImage): Promise<string | null> => {
+  try {
+    const provider = await getGenerationProvider();
+    const cutout = await requestScheduler.schedule(
+      () => provider.cutoutGarment(image.base64, image.mimeType),
+      { label: `Clean up ${image.name}` }
+    );
+    return cutout ? toDataUrl(cutout, 'image/png') : null;
+  } catch (err) {
+    // The local pass below still handles plain backdrops on its own.
+    console.warn(`Could not cut out ${image.name}; cleaning it up locally instead:`, err);
+    return null;
+  }
+};
+
+/**
+ * Flattens the background to white and finds the garment's bounds in a worker, off the main thread.
+ * @param pixels The photo's pixels. Their buffer is handed over to the worker.
+ * @returns The result of the pixel pass.
+ */
+const runPixelPass = (pixels: ImageData): Promise<PixelPassResult> => new Promise((resolve, reject) => {
+  const worker = new Worker(new URL('./garmentCleanup.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<PixelPassResult>) => {
+    worker.terminate();
+    resolve(event.data);
+  };
+  worker.onerror = (event) => {
+    worker.terminate();
+    reject(new Error(event.message || "The background cleanup worker failed."));
+  };
+  const request: PixelPassRequest = { data: pixels.data, width: pixels.width, height: pixels.height };
+  worker.postMessage(request, [pixels.data.buffer]);
+});
+
+/**
+ * Cuts a garment out of its photo onto plain white and crops it to the garment, so the try-on
+ * model sees only the clothing. The generation provider does the cutout; a local pass then
+ * flattens what is left of the backdrop and finds the crop. Without a cutout, the local pass
+ * still removes plain, gradient and lightly shadowed backdrops.
+ * @param image The ingested garment photo.
+ * @returns The cleaned copy, whose `url` is an object URL owned by the caller, or null if there
+ *   was no cutout and the photo has no background that can be told apart from the garment.
+ */
+export const cleanGarmentBackground = async (image: UploadedImage): Promise<UploadedImage | null> => {
+  const cutoutUrl = await cutOutGarment(image);
+  const source = await loadImageElement(cutoutUrl || image.url);
+  const width = source.naturalWidth;
+  const height = source.naturalHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+  context.drawImage(source, 0, 0);
+  const result = await runPixelPass(context.getImageData(0, 0, width, height));
+  if (!result && !cutoutUrl) return null;
+
+  // A cutout that fills the frame is kept whole.
+  let [cropX, cropY, cropWidth, cropHeight] = [0, 0, width, height];
+  if (result) {
+    context.putImageData(new ImageData(result.data, width, height), 0, 0);
+    const { left, top, right, bottom } = result.bounds;
+    const padding = Math.round(Math.max(right - left, bottom - top) * CROP_PADDING);
+    cropX = Math.max(0, left - padding);
+    cropY = Math.max(0, top - padding);
+    cropWidth = Math.min(width, right + padding + 1) - cropX;
+    cropHeight = Math.min(height, bottom + padding + 1) - cropY;
+  }
+  const cropped = document.createElement('canvas');
+  cropped.width = cropWidth;
+  cropped.height = cropHeight;
+  cropped.getContext('2d')?.drawImage(canvas, cropX, cropY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
+
+  const blob = await new Promise<Blob>((resolve, reject) => cropped.toBlob(
+    result => result ? resolve(result) : reject(new Error("The cleaned image could not be encoded.")),
+    GARMENT_INGEST_OPTIONS.mimeType,
+    GARMENT_INGEST_OPTIONS.quality
+  ));
+  return {
+    base64: await readFileAsBase64(blob),
+    mimeType: blob.type || GARMENT_INGEST_OPTIONS.mimeType,
+    url: URL.createObjectURL(blob),
+    name: image.name.replace(/(\.[^.]+)?$/, '-cleaned$1'),
+  };
+};
+
+// Cleanup decodes a full-resolution copy of each photo, so uploads take turns rather than all
+// holding one at once. Failures are the caller's to handle; the chain carries on.
+let cleanupQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Cleans up a garment photo once the cleanups queued before it have finished.
+ * @param image The ingested garment photo.
+ * @returns The result of `cleanGarmentBackground`.
+ */
+export const queueGarmentCleanup = (image: UploadedImage): Promise<UploadedImage | null> => {
+  const queued = cleanupQueue.then(() => cleanGarmentBackground(image));
+  cleanupQueue = queued.catch(() => undefined);
+  return queued;
+};
+
+/**
+ * The picture of an item the try-on model should see: the cleaned copy when there is one.
+ * @param item The catalogue item.
+ * @returns The image to send.
+ */
+export const getTryOnImage = (item: FilterItem): UploadedImage => item.cleanedImage || item.image;
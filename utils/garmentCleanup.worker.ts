@@ -0,0 +1,151 @@
+// The per-pixel half of garment cleanup. It walks every pixel of a full-resolution photo, so it
+// runs here rather than on the main thread; see cleanGarmentBackground in garmentCleanup.ts.
+
+export interface PixelPassRequest {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// The flattened pixels and the garment's bounds, or null if no clear background was found.
+export type PixelPassResult = {
+  data: Uint8ClampedArray;
+  bounds: { left: number; top: number; right: number; bottom: number };
+} | null;
+
+// Colour distances are Euclidean in RGB (0-441).
+// How far apart two neighbouring pixels can be and still both count as background.
+const MAX_STEP = 16;
+// How far the background can drift from where it touched the border, e.g. along a shadow.
+const MAX_DRIFT = 90;
+// Border pixels further than this from the border's typical colour belong to the garment.
+const MAX_SEED_DISTANCE = 60;
+// Pixels this transparent are background whatever their colour, e.g. in product cutouts.
+const TRANSPARENT_ALPHA = 16;
+// Outside these bounds the segmentation found nothing worth removing, or ate the garment.
+const MIN_BACKGROUND_SHARE = 0.08;
+const MAX_BACKGROUND_SHARE = 0.92;
+
+const colorDistance = (data: Uint8ClampedArray, a: number, b: number): number => {
+  const dr = data[a * 4] - data[b * 4];
+  const dg = data[a * 4 + 1] - data[b * 4 + 1];
+  const db = data[a * 4 + 2] - data[b * 4 + 2];
+  return Math.sqrt(dr * dr + dg * dg + db * db);
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Finds the background of a garment photo by growing regions inward from the image border,
+ * through pixels close in colour to their neighbours. Works for plain, gradient and lightly
+ * shadowed backdrops, and for the plain white left behind by the cutout service.
+ * @param data RGBA pixels, as in `ImageData.data`.
+ * @param width The image width in pixels.
+ * @param height The image height in pixels.
+ * @returns A mask with 1 for background pixels, or null if no clear background was found.
+ */
+export const segmentBackground = (data: Uint8ClampedArray, width: number, height: number): Uint8Array | null => {
+  const total = width * height;
+  const borderPixels: number[] = [];
+  for (let x = 0; x < width; x++) borderPixels.push(x, (height - 1) * width + x);
+  for (let y = 1; y < height - 1; y++) borderPixels.push(y * width, y * width + width - 1);
+
+  // Garments often run off the edge of the photo; only border pixels in the backdrop's colour seed it.
+  const opaqueBorder = borderPixels.filter(pixel => data[pixel * 4 + 3] >= TRANSPARENT_ALPHA);
+  const reference = opaqueBorder.length > 0 ? [0, 1, 2].map(channel => median(opaqueBorder.map(pixel => data[pixel * 4 + channel]))) : [255, 255, 255];
+  const distanceToReference = (pixel: number) => Math.hypot(
+    data[pixel * 4] - reference[0], data[pixel * 4 + 1] - reference[1], data[pixel * 4 + 2] - reference[2]
+  );
+
+  const mask = new Uint8Array(total);
+  // Each background pixel remembers the border pixel its region grew from, to limit drift.
+  const origin = new Int32Array(total);
+  const queue = new Int32Array(total);
+  let head = 0;
+  let tail = 0;
+  for (const pixel of borderPixels) {
+    if (mask[pixel]) continue;
+    if (data[pixel * 4 + 3] < TRANSPARENT_ALPHA || distanceToReference(pixel) <= MAX_SEED_DISTANCE) {
+      mask[pixel] = 1;
+      origin[pixel] = pixel;
+      queue[tail++] = pixel;
+    }
+  }
+
+  while (head < tail) {
+    const pixel = queue[head++];
+    const x = pixel % width;
+    // Transparent regions carry no colour to compare against, so they only spread among themselves.
+    const isFromTransparent = data[pixel * 4 + 3] < TRANSPARENT_ALPHA;
+    // Left, right, up and down, skipping those that fall off the image.
+    for (let side = 0; side < 4; side++) {
+      const neighbour = side === 0 ? (x > 0 ? pixel - 1 : -1)
+        : side === 1 ? (x < width - 1 ? pixel + 1 : -1)
+        : side === 2 ? pixel - width
+        : pixel + width;
+      if (neighbour < 0 || neighbour >= total || mask[neighbour]) continue;
+      const isTransparent = data[neighbour * 4 + 3] < TRANSPARENT_ALPHA;
+      if (isTransparent || (!isFromTransparent && colorDistance(data, pixel, neighbour) <= MAX_STEP && colorDistance(data, origin[pixel], neighbour) <= MAX_DRIFT)) {
+        mask[neighbour] = 1;
+        origin[neighbour] = origin[pixel];
+        queue[tail++] = neighbour;
+      }
+    }
+  }
+
+  const share = tail / total;
+  return share >= MIN_BACKGROUND_SHARE && share <= MAX_BACKGROUND_SHARE ? mask : null;
+};
+
+/**
+ * Blends each pixel towards white by the share of background around it, which softens the cut
+ * edge, and measures the garment's bounds on the way. Works in place on `data`.
+ * @param data RGBA pixels, as in `ImageData.data`.
+ * @param width The image width in pixels.
+ * @param height The image height in pixels.
+ * @returns The flattened pixels and the garment's bounds, or null if no clear background was found.
+ */
+export const flattenBackground = (data: Uint8ClampedArray, width: number, height: number): PixelPassResult => {
+  const mask = segmentBackground(data, width, height);
+  if (!mask) return null;
+
+  let left = width, top = height, right = -1, bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let background = 0;
+      let counted = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          background += mask[ny * width + nx];
+          counted++;
+        }
+      }
+      const offset = (y * width + x) * 4;
+      const keep = (1 - background / counted) * (data[offset + 3] / 255);
+      data[offset] = data[offset] * keep + 255 * (1 - keep);
+      data[offset + 1] = data[offset + 1] * keep + 255 * (1 - keep);
+      data[offset + 2] = data[offset + 2] * keep + 255 * (1 - keep);
+      data[offset + 3] = 255;
+      if (!mask[y * width + x]) {
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+      }
+    }
+  }
+  return { data, bounds: { left, top, right, bottom } };
+};
+
+self.onmessage = (event: MessageEvent<PixelPassRequest>) => {
+  const { data, width, height } = event.data;
+  const result = flattenBackground(data, width, height);
+  // The pixels travel back by transfer too, rather than being copied.
+  self.postMessage(result, { transfer: result ? [result.data.buffer] : [] });
+};
@@ -0,0 +1,9 @@
+/**
+ * Computes the SHA-256 digest of a string and returns it as lowercase hex.
+ * @param value The string to hash (e.g. base64 image data or a serialized cache key).
+ * @returns A Promise that resolves with the 64-character hex digest.
+ */
+export const sha256Hex = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
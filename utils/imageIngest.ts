@@ -0,0 +1,186 @@
+import { UploadedImage } from '../types';
+import { loadImageElement, readFileAsBase64 } from './imageUtils';
+import { hashImageSource } from './perceptualHash';
+
+export interface IngestOptions {
+  // The longest side of the stored image, in pixels. Smaller images are never upscaled.
+  maxDimension: number;
+  mimeType: 'image/jpeg' | 'image/webp' | 'image/png';
+  quality: number; // 0-1, ignored for PNG
+  thumbnailSize: number; // The longest side of the grid thumbnail, in pixels
+}
+
+// Photos of people: detailed enough for a convincing try-on, small enough to upload quickly.
+export const PHOTO_INGEST_OPTIONS: IngestOptions = {
+  maxDimension: 2048,
+  mimeType: 'image/jpeg',
+  quality: 0.9,
+  thumbnailSize: 320,
+};
+
+// Garments: WebP keeps the transparency of cut-out product shots.
+export const GARMENT_INGEST_OPTIONS: IngestOptions = {
+  maxDimension: 1536,
+  mimeType: 'image/webp',
+  quality: 0.9,
+  thumbnailSize: 320,
+};
+
+// Originals are shrunk before anything is stored or sent, so this only guards against files
+// too large to decode comfortably in the browser.
+export const MAX_INGEST_FILE_SIZE_MB = 40;
+const MAX_INGEST_FILE_SIZE_BYTES = MAX_INGEST_FILE_SIZE_MB * 1024 * 1024;
+
+const EXTENSIONS: Record<IngestOptions['mimeType'], string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/png': 'png',
+};
+
+/**
+ * Checks whether a file can be ingested at all.
+ * @param file The file chosen by the user.
+ * @returns A message explaining why the file is rejected, or null if it is acceptable.
+ */
+export const validateImageFile = (file: File): string | null => {
+  if (!file.type.startsWith('image/')) {
+    return 'Please upload a valid image file (PNG, JPG, etc.).';
+  }
+  if (file.size > MAX_INGEST_FILE_SIZE_BYTES) {
+    return `Image is too large. Max size is ${MAX_INGEST_FILE_SIZE_MB}MB.`;
+  }
+  return null;
+};
+
+/**
+ * Reads the EXIF orientation tag (1-8) from a JPEG, or 1 if there is none.
+ * Only the first 64KB are read; the APP1 segment always sits at the start of the file.
+ */
+const readExifOrientation = async (file: Blob): Promise<number> => {
+  const view = new DataView(await file.slice(0, 64 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return 1;
+  }
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 holding "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      // A malformed or unusually large header can point past the bytes read.
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, littleEndian);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          return view.getUint16(entry + 8, littleEndian);
+        }
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00) break;
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+// Browsers that understand `image-orientation` already apply EXIF rotation when decoding,
+// for <img> and canvas alike. Rotating again would turn the photo sideways a second time.
+const browserAppliesExifOrientation = (): boolean =>
+  typeof CSS !== 'undefined' && CSS.supports?.('image-orientation', 'from-image');
+
+/**
+ * Sets up a canvas transform that turns an image with the given EXIF orientation upright.
+ */
+const applyOrientationTransform = (context: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2: context.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: context.transform(-1, 0, 0, -1, width, height); break;
+    case 4: context.transform(1, 0, 0, -1, 0, height); break;
+    case 5: context.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: context.transform(0, 1, -1, 0, height, 0); break;
+    case 7: context.transform(0, -1, -1, 0, height, width); break;
+    case 8: context.transform(0, -1, 1, 0, 0, width); break;
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("The image could not be encoded.")), mimeType, quality);
+  });
+
+const scaleToFit = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+/**
+ * Turns an uploaded file into an image ready for storage and the model: upright, no larger
+ * than `maxDimension`, re-encoded in the target format, with a small thumbnail for grids and
+ * a perceptual hash for duplicate detection.
+ * @param file The image file chosen by the user.
+ * @param options The size and encoding to produce.
+ * @returns The processed image. Its `url` and `thumbnailUrl` are object URLs owned by the caller.
+ */
+export const ingestImage = async (file: File, options: IngestOptions): Promise<UploadedImage> => {
+  const rejection = validateImageFile(file);
+  if (rejection) {
+    throw new Error(rejection);
+  }
+
+  const orientation = browserAppliesExifOrientation() ? 1 : await readExifOrientation(file);
+  const sourceUrl = URL.createObjectURL(file);
+  let source: HTMLImageElement;
+  try {
+    source = await loadImageElement(sourceUrl);
+  } finally {
+    URL.revokeObjectURL(sourceUrl);
+  }
+
+  const isRotated = orientation >= 5;
+  const upright = isRotated
+    ? { width: source.naturalHeight, height: source.naturalWidth }
+    : { width: source.naturalWidth, height: source.naturalHeight };
+  const target = scaleToFit(upright.width, upright.height, options.maxDimension);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = target.width;
+  canvas.height = target.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+  // The transform works in the unrotated frame, so swap the target dimensions back for it.
+  const drawWidth = isRotated ? target.height : target.width;
+  const drawHeight = isRotated ? target.width : target.height;
+  applyOrientationTransform(context, orientation, drawWidth, drawHeight);
+  context.drawImage(source, 0, 0, drawWidth, drawHeight);
+
+  const thumbnailSize = scaleToFit(target.width, target.height, options.thumbnailSize);
+  const thumbnailCanvas = document.createElement('canvas');
+  thumbnailCanvas.width = thumbnailSize.width;
+  thumbnailCanvas.height = thumbnailSize.height;
+  thumbnailCanvas.getContext('2d')?.drawImage(canvas, 0, 0, thumbnailSize.width, thumbnailSize.height);
+
+  const [blob, thumbnail] = await Promise.all([
+    canvasToBlob(canvas, options.mimeType, options.quality),
+    canvasToBlob(thumbnailCanvas, options.mimeType, options.quality),
+  ]);
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+  // Browsers that cannot encode the requested format fall back to PNG, so name the file after what was made.
+  const mimeType = blob.type || options.mimeType;
+
+  return {
+    base64: await readFileAsBase64(blob),
+    mimeType,
+    url: URL.createObjectURL(blob),
+    name: `${baseName}.${EXTENSIONS[mimeType as IngestOptions['mimeType']] || mimeType.split('/')[1]}`,
+    thumbnailUrl: URL.createObjectURL(thumbnail),
+    perceptualHash: hashImageSource(thumbnailCanvas),
+  };
+};
@@ -1,10 +1,12 @@
+import { FilterItem, UploadedImage } from '../types';
+
 /**
- * Reads a File object and converts it to a base64 encoded string.
+ * Reads a File (or any Blob) and converts it to a base64 encoded string.
  * This function wraps the FileReader API in a Promise for easier async/await usage.
- * @param file The file to read.
+ * @param file The file or blob to read.
  * @returns A Promise that resolves with the base64 string (without the data URI prefix).
  */
-export const readFileAsBase64 = (file: File): Promise<string> => {
+export const readFileAsBase64 = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onloadend = () => {
@@ -24,6 +26,23 @@ export const readFileAsBase64 = (file: File): Promise<string> => {
   });
 };
 
+// The base64 form of each format's leading magic bytes.
+const BASE64_SIGNATURES: [string, string][] = [
+  ['iVBORw0KGgo', 'image/png'],
+  ['/9j/', 'image/jpeg'],
+  ['UklGR', 'image/webp'],
+  ['R0lGOD', 'image/gif'],
+];
+
+/**
+ * Works out an image's MIME type from its leading bytes, for images that arrive as bare base64.
+ * @param base64 The base64 encoded image.
+ * @param fallback The type to assume when the format is not recognised.
+ * @returns The MIME type.
+ */
+export const detectBase64ImageMimeType = (base64: string, fallback = 'image/png'): string =>
+  BASE64_SIGNATURES.find(([signature]) => base64.startsWith(signature))?.[1] || fallback;
+
 /**
  * Converts a base64 string to a Blob object.
  * @param base64 The base64 encoded data.
@@ -39,3 +58,63 @@ export const base64ToBlob = (base64: string, mimeType: string): Blob => {
   const byteArray = new Uint8Array(byteNumbers);
   return new Blob([byteArray], { type: mimeType });
 };
+
+/**
+ * Loads an image source (data URL, object URL or remote URL) into an HTMLImageElement.
+ * @param src The image source to load.
+ * @returns A Promise that resolves with the decoded image element.
+ */
+export const loadImageElement = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("There was an error decoding the image."));
+    image.src = src;
+  });
+};
+
+/**
+ * Builds a data URL from raw base64 data and its MIME type.
+ * @param base64 The base64 encoded data (without the data URI prefix).
+ * @param mimeType The MIME type of the data.
+ * @returns The data URL string.
+ */
+export const toDataUrl = (base64: string, mimeType: string): string => `data:${mimeType};base64,${base64}`;
+
+/**
+ * Releases the object URLs held by an image: the full-size preview and its thumbnail, if any.
+ * @param image The image whose URLs are no longer needed.
+ */
+export const revokeImageUrls = (image: UploadedImage): void => {
+  if (image.url.startsWith('blob:')) URL.revokeObjectURL(image.url);
+  if (image.thumbnailUrl) URL.revokeObjectURL(image.thumbnailUrl);
+};
+
+/**
+ * Releases the object URLs of every image a catalogue item holds.
+ * @param item The item being dropped for good.
+ */
+export const revokeItemImageUrls = (item: FilterItem): void => {
+  revokeImageUrls(item.image);
+  if (item.cleanedImage) revokeImageUrls(item.cleanedImage);
+};
+
+/**
+ * Draws a small JPEG copy of an image, e.g. to keep a result preview somewhere space is tight.
+ * @param src The image source (data URL or object URL).
+ * @param maxDimension The longest side of the copy, in pixels.
+ * @returns The copy as a data URL.
+ */
+export const createThumbnailDataUrl = async (src: string, maxDimension: number): Promise<string> => {
+  const image = await loadImageElement(src);
+  const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
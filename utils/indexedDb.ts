@@ -0,0 +1,50 @@
+/**
+ * Opens (and if needed creates or upgrades) an IndexedDB database.
+ * @param name The database name.
+ * @param version The schema version; bump it to trigger `upgrade`.
+ * @param upgrade Creates or migrates object stores, given the version being upgraded from.
+ * @returns A Promise that resolves with the open database.
+ */
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void
+): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, event.oldVersion, request.transaction!);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`Opening database "${name}" was blocked by another open tab.`));
+  });
+};
+
+/**
+ * Wraps an IDBRequest in a Promise.
+ * @param request The request to wait for.
+ * @returns A Promise that resolves with the request's result.
+ */
+export const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Resolves once a transaction has committed, or rejects if it fails or is aborted.
+ * @param transaction The transaction to wait for.
+ */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error("The transaction was aborted."));
+  });
+};
@@ -0,0 +1,59 @@
+import { ImageLineage, UploadedImage } from '../types';
+
+export interface LineageNode {
+  image: UploadedImage;
+  children: LineageNode[]; // Oldest first
+}
+
+/**
+ * Creates the lineage for a new workspace image.
+ * @param parent The image it was generated from, or null for a captured or uploaded photo.
+ * @param operation What produced it, shown in the history.
+ */
+export const createLineage = (parent: UploadedImage | null, operation: string): ImageLineage => ({
+  id: crypto.randomUUID(),
+  parentId: parent?.lineage?.id ?? null,
+  operation,
+});
+
+/**
+ * Finds the image another was generated from, if it is still in the workspace.
+ */
+export const getParent = (items: UploadedImage[], image: UploadedImage): UploadedImage | undefined => {
+  const parentId = image.lineage?.parentId;
+  return parentId ? items.find(item => item.lineage?.id === parentId) : undefined;
+};
+
+/**
+ * Lists the images generated from an image, oldest first. The workspace holds them newest first.
+ */
+export const getChildren = (items: UploadedImage[], image: UploadedImage): UploadedImage[] => {
+  const id = image.lineage?.id;
+  return id ? items.filter(item => item.lineage?.parentId === id).reverse() : [];
+};
+
+/**
+ * Lists an image and its ancestors still in the workspace, from the original photo down to the image.
+ */
+export const getAncestry = (items: UploadedImage[], image: UploadedImage): UploadedImage[] => {
+  const path = [image];
+  let parent = getParent(items, image);
+  // Ids are random UUIDs, but a hand-edited or corrupt session must not loop forever.
+  while (parent && !path.includes(parent)) {
+    path.unshift(parent);
+    parent = getParent(items, parent);
+  }
+  return path;
+};
+
+/**
+ * Builds the whole history tree an image belongs to, starting from its oldest ancestor still in the workspace.
+ */
+export const buildLineageTree = (items: UploadedImage[], image: UploadedImage): LineageNode => {
+  const visited = new Set<UploadedImage>();
+  const build = (node: UploadedImage): LineageNode => {
+    visited.add(node);
+    return { image: node, children: getChildren(items, node).filter(child => !visited.has(child)).map(build) };
+  };
+  return build(getAncestry(items, image)[0]);
+};
@@ -0,0 +1,274 @@
+import { UploadedImage } from '../types';
+import { getCategoryPath } from '../taxonomy';
+import { loadImageElement } from './imageUtils';
+import { createImagePdf, PdfImagePage } from './pdf';
+
+export interface LookbookGarment {
+  name: string;
+  category: string;
+  image?: UploadedImage; // Missing once the item has been deleted from the catalogue
+}
+
+export interface LookbookLook {
+  image: UploadedImage;
+  source?: UploadedImage; // The photo the look was generated from, while it is still in the workspace
+  garments: LookbookGarment[];
+  caption: string;
+}
+
+export interface LookbookOptions {
+  title: string;
+  subtitle: string; // e.g. the client's name; may be empty
+}
+
+// A4 portrait at 150 dpi.
+const PAGE = { width: 1240, height: 1754 };
+const MARGIN = 80;
+const CONTACT_SHEET_WIDTH = 2400;
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+const INK = '#44403c'; // Tailwind stone-700, as in the app
+const MUTED = '#a8a29e'; // stone-400
+const ACCENT = '#db2777'; // pink-600
+
+type Context = CanvasRenderingContext2D;
+
+interface LoadedLook {
+  look: LookbookLook;
+  image: HTMLImageElement | null;
+  source: HTMLImageElement | null;
+  garments: (HTMLImageElement | null)[];
+}
+
+// A missing or revoked image leaves a blank space rather than failing the whole export.
+const loadOptional = (src: string | undefined): Promise<HTMLImageElement | null> =>
+  src ? loadImageElement(src).catch(() => null) : Promise.resolve(null);
+
+// Looks are loaded one at a time, just before they are drawn, so a large export never holds
+// every decoded image at once.
+const loadLook = async (look: LookbookLook): Promise<LoadedLook> => ({
+  look,
+  image: await loadOptional(look.image.url),
+  source: await loadOptional(look.source?.url),
+  garments: await Promise.all(look.garments.map(garment => loadOptional(garment.image?.thumbnailUrl || garment.image?.url))),
+});
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, Context] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.textBaseline = 'top';
+  return [canvas, context];
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("The page could not be drawn.")), mimeType, quality));
+
+const setFont = (context: Context, size: number, weight = 400, color = INK) => {
+  context.font = `${weight} ${size}px ${FONT_FAMILY}`;
+  context.fillStyle = color;
+};
+
+// Draws an image scaled to fit the box, centred, like `object-contain`; an empty box for a missing image.
+const drawContained = (context: Context, image: HTMLImageElement | null, x: number, y: number, width: number, height: number) => {
+  context.fillStyle = '#f5f5f4'; // stone-100
+  if (!image) {
+    context.fillRect(x, y, width, height);
+    return;
+  }
+  const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  context.drawImage(image, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+// Breaks text into lines that fit, cutting the last line short with an ellipsis.
+const wrapText = (context: Context, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (context.measureText(candidate).width <= maxWidth || !line) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last && context.measureText(`${last}…`).width > maxWidth) last = last.slice(0, -1);
+  kept[maxLines - 1] = `${last}…`;
+  return kept;
+};
+
+// Draws wrapped text and returns the y just below it.
+const drawText = (context: Context, text: string, x: number, y: number, maxWidth: number, maxLines: number, lineHeight: number): number => {
+  const lines = wrapText(context, text, maxWidth, maxLines);
+  lines.forEach((line, index) => context.fillText(line, x, y + index * lineHeight));
+  return y + lines.length * lineHeight;
+};
+
+const formatDate = () => new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Most garment thumbnails a look page has room for in its single row.
+const MAX_GARMENT_COLUMNS = 10;
+
+const drawCoverPage = (lookCount: number, previews: (HTMLImageElement | null)[], options: LookbookOptions): HTMLCanvasElement => {
+  const [canvas, context] = createCanvas(PAGE.width, PAGE.height);
+  const contentWidth = PAGE.width - MARGIN * 2;
+  context.textAlign = 'center';
+  setFont(context, 84, 700);
+  let y = drawText(context, options.title, PAGE.width / 2, 360, contentWidth, 2, 100);
+  if (options.subtitle) {
+    setFont(context, 44, 400, ACCENT);
+    y = drawText(context, options.subtitle, PAGE.width / 2, y + 30, contentWidth, 2, 56);
+  }
+  setFont(context, 30, 400, MUTED);
+  context.fillText(`${formatDate()} · ${lookCount} ${lookCount === 1 ? 'look' : 'looks'}`, PAGE.width / 2, y + 40);
+
+  // A strip of the first few looks as a preview.
+  const gap = 24;
+  const previewWidth = (contentWidth - gap * (previews.length - 1)) / Math.max(previews.length, 1);
+  previews.forEach((image, index) => drawContained(context, image, MARGIN + index * (previewWidth + gap), 900, previewWidth, previewWidth * 1.5));
+  return canvas;
+};
+
+const drawLookPage = (loaded: LoadedLook, index: number, total: number, options: LookbookOptions): HTMLCanvasElement => {
+  const [canvas, context] = createCanvas(PAGE.width, PAGE.height);
+  const { look } = loaded;
+  const contentWidth = PAGE.width - MARGIN * 2;
+
+  setFont(context, 24, 400, MUTED);
+  context.textAlign = 'right';
+  context.fillText(options.subtitle ? `${options.title} · ${options.subtitle}` : options.title, PAGE.width - MARGIN, MARGIN);
+  context.textAlign = 'left';
+  setFont(context, 56, 700);
+  context.fillText(`Look ${index + 1}`, MARGIN, MARGIN + 40);
+  setFont(context, 30);
+  const captionBottom = look.caption ? drawText(context, look.caption, MARGIN, MARGIN + 120, contentWidth, 3, 40) : MARGIN + 110;
+
+  // The original photo in a narrow column beside the look, when there is one.
+  const imageTop = captionBottom + 30;
+  const imageHeight = 1300 - imageTop;
+  const sourceWidth = loaded.source ? 300 : 0;
+  if (loaded.source) {
+    setFont(context, 22, 600, MUTED);
+    context.fillText('ORIGINAL', MARGIN, imageTop);
+    drawContained(context, loaded.source, MARGIN, imageTop + 34, sourceWidth, sourceWidth * 4 / 3);
+  }
+  const lookX = MARGIN + (sourceWidth ? sourceWidth + 30 : 0);
+  drawContained(context, loaded.image, lookX, imageTop, PAGE.width - MARGIN - lookX, imageHeight);
+
+  if (look.garments.length > 0) {
+    setFont(context, 22, 600, MUTED);
+    context.fillText('WEARING', MARGIN, 1340);
+    const columns = Math.min(MAX_GARMENT_COLUMNS, Math.max(6, look.garments.length));
+    const gap = 20;
+    const thumbWidth = (contentWidth - gap * (columns - 1)) / columns;
+    const thumbHeight = thumbWidth * 1.3;
+    // When there are more garments than columns, the last column lists the rest by name.
+    const overflow = look.garments.length > columns ? look.garments.slice(columns - 1) : [];
+    const shown = overflow.length > 0 ? look.garments.slice(0, columns - 1) : look.garments;
+    shown.forEach((garment, garmentIndex) => {
+      const x = MARGIN + garmentIndex * (thumbWidth + gap);
+      drawContained(context, loaded.garments[garmentIndex], x, 1380, thumbWidth, thumbHeight);
+      setFont(context, 20, 600);
+      const nameBottom = drawText(context, garment.name, x, 1390 + thumbHeight, thumbWidth, 2, 24);
+      setFont(context, 16, 400, MUTED);
+      drawText(context, getCategoryPath(garment.category), x, nameBottom + 2, thumbWidth, 1, 20);
+    });
+    if (overflow.length > 0) {
+      const x = MARGIN + (columns - 1) * (thumbWidth + gap);
+      drawContained(context, null, x, 1380, thumbWidth, thumbHeight);
+      setFont(context, 28, 700, MUTED);
+      context.textAlign = 'center';
+      context.fillText(`+${overflow.length}`, x + thumbWidth / 2, 1380 + thumbHeight / 2 - 14);
+      context.textAlign = 'left';
+      setFont(context, 20, 600);
+      const labelBottom = drawText(context, `${overflow.length} more`, x, 1390 + thumbHeight, thumbWidth, 1, 24);
+      setFont(context, 16, 400, MUTED);
+      drawText(context, overflow.map(garment => garment.name).join(', '), x, labelBottom + 2, thumbWidth, 4, 20);
+    }
+  }
+
+  setFont(context, 20, 400, MUTED);
+  context.textAlign = 'center';
+  context.fillText(`${index + 2} / ${total + 1}`, PAGE.width / 2, PAGE.height - 50);
+  return canvas;
+};
+
+/**
+ * Builds a lookbook PDF: a cover page, then one page per look with its caption, the original photo
+ * and the garments it uses.
+ * @param looks The looks, in page order.
+ * @param options The cover's title and subtitle, repeated in each page's header.
+ * @returns The PDF file.
+ */
+export const createLookbookPdf = async (looks: LookbookLook[], options: LookbookOptions): Promise<Blob> => {
+  const drawPages = [
+    async () => drawCoverPage(looks.length, await Promise.all(looks.slice(0, 4).map(look => loadOptional(look.image.url))), options),
+    ...looks.map((look, index) => async () => drawLookPage(await loadLook(look), index, looks.length, options)),
+  ];
+  const pages: PdfImagePage[] = [];
+  // Each page is loaded, drawn and encoded before the next, so only one page's images and one
+  // full-size canvas exist at a time.
+  for (const drawPage of drawPages) {
+    const canvas = await drawPage();
+    const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.88)).arrayBuffer());
+    pages.push({ jpeg, pixelWidth: canvas.width, pixelHeight: canvas.height });
+    // Frees the canvas's pixels now rather than whenever it is collected.
+    canvas.width = 0;
+  }
+  return createImagePdf(pages);
+};
+
+/**
+ * Builds a single PNG with every look in a grid, each with its caption and garment names.
+ * @param looks The looks, in reading order.
+ * @param options The title and subtitle shown above the grid.
+ * @returns The PNG file.
+ */
+export const createContactSheet = async (looks: LookbookLook[], options: LookbookOptions): Promise<Blob> => {
+  const columns = Math.min(4, Math.max(1, looks.length));
+  const gap = 40;
+  const cellWidth = (CONTACT_SHEET_WIDTH - MARGIN * 2 - gap * (columns - 1)) / columns;
+  const imageHeight = cellWidth * 4 / 3;
+  const cellHeight = imageHeight + 200;
+  const headerHeight = options.subtitle ? 220 : 170;
+  const rows = Math.ceil(looks.length / columns);
+  const [canvas, context] = createCanvas(CONTACT_SHEET_WIDTH, headerHeight + rows * (cellHeight + gap) + MARGIN);
+
+  setFont(context, 64, 700);
+  context.fillText(options.title, MARGIN, MARGIN - 20);
+  if (options.subtitle) {
+    setFont(context, 36, 400, ACCENT);
+    context.fillText(options.subtitle, MARGIN, MARGIN + 60);
+  }
+  setFont(context, 28, 400, MUTED);
+  context.textAlign = 'right';
+  context.fillText(formatDate(), CONTACT_SHEET_WIDTH - MARGIN, MARGIN);
+  context.textAlign = 'left';
+
+  // Only the looks themselves are shown, each loaded just before it is drawn.
+  for (const [index, look] of looks.entries()) {
+    const x = MARGIN + (index % columns) * (cellWidth + gap);
+    const y = headerHeight + Math.floor(index / columns) * (cellHeight + gap);
+    drawContained(context, await loadOptional(look.image.url), x, y, cellWidth, imageHeight);
+    setFont(context, 32, 700);
+    context.fillText(`Look ${index + 1}`, x, y + imageHeight + 16);
+    setFont(context, 24);
+    const captionBottom = drawText(context, look.caption, x, y + imageHeight + 60, cellWidth, 2, 30);
+    setFont(context, 20, 400, MUTED);
+    drawText(context, look.garments.map(garment => garment.name).join(' · '), x, captionBottom + 8, cellWidth, 2, 26);
+  }
+
+  return canvasToBlob(canvas, 'image/png');
+};
@@ -0,0 +1,96 @@
+import { FilterItem, TryOnItem } from '../types';
+import { SchedulerOptions } from '../services/requestScheduler';
+import { LookSlot, assembleLook, buildLookSlots } from './outfitRules';
+
+type SelectedItems = Record<string, FilterItem[]>;
+
+// 'all' tries every combination; 'vary-one' starts from one base look and swaps a single slot at a time.
+export type PlanStrategy = 'all' | 'vary-one';
+
+export interface BatchEstimate {
+  seconds: number;
+  costUsd: number;
+}
+
+// Rough figures for one virtualTryOn call, used only to warn before large batches.
+const SECONDS_PER_TRY_ON = 20;
+const COST_PER_TRY_ON_USD = 0.039; // List price of one generated image on the default image model
+
+export const DEFAULT_MAX_COMBINATIONS = 10;
+
+// Every way of picking one option per slot, as lists of option indices.
+const allChoices = (slots: LookSlot[]): number[][] =>
+  slots.reduce<number[][]>((choices, slot) => choices.flatMap(choice => slot.options.map((_, index) => [...choice, index])), [[]]);
+
+// Layers skip looks they cannot go over, so different choices can produce the same look.
+const uniqueLooks = (looks: TryOnItem[][]): TryOnItem[][] => {
+  const seen = new Set<string>();
+  return looks.filter(look => {
+    const key = combinationKey(look);
+    if (look.length === 0 || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Builds every combination of the selected items, following the outfit rules: one option per
+ * slot, items worn together kept together, and layers added to the looks they can go over.
+ * @param selectedItems The selected items, grouped by category.
+ * @returns One list of items per look to try on.
+ */
+export const generateOutfitCombinations = (selectedItems: SelectedItems): TryOnItem[][] => {
+  const slots = buildLookSlots(selectedItems);
+  if (slots.length === 0) return [];
+  return uniqueLooks(allChoices(slots).map(choices => assembleLook(slots, choices)));
+};
+
+/**
+ * Builds a batch that starts from a base look (the first option in every slot) and then
+ * changes one slot at a time, so n choices cost 1 + Σ(n - 1) calls instead of Π n.
+ * @param selectedItems The selected items, grouped by category.
+ * @returns The base look followed by its one-slot variations.
+ */
+export const generateVaryOneCombinations = (selectedItems: SelectedItems): TryOnItem[][] => {
+  const slots = buildLookSlots(selectedItems);
+  if (slots.length === 0) return [];
+  const baseChoices = slots.map(() => 0);
+  const variations = slots.flatMap((slot, slotIndex) =>
+    slot.options.slice(1).map((_, offset) => baseChoices.map((choice, index) => index === slotIndex ? offset + 1 : choice))
+  );
+  return uniqueLooks([baseChoices, ...variations].map(choices => assembleLook(slots, choices)));
+};
+
+/**
+ * Lists the combinations a strategy would try for the current selection.
+ */
+export const planCombinations = (selectedItems: SelectedItems, strategy: PlanStrategy): TryOnItem[][] =>
+  strategy === 'vary-one' ? generateVaryOneCombinations(selectedItems) : generateOutfitCombinations(selectedItems);
+
+/**
+ * Identifies a combination by its items, so ticks survive the list being rebuilt.
+ */
+export const combinationKey = (combination: TryOnItem[]): string => combination.map(item => item.id).join('+');
+
+/**
+ * Picks the combinations that will actually be generated: ticked ones, up to the maximum.
+ * @param combinations The planned combinations, in order.
+ * @param excludedKeys Keys of combinations the user unticked.
+ * @param maxCombinations The most calls the batch may make.
+ */
+export const selectCombinations = (combinations: TryOnItem[][], excludedKeys: Set<string>, maxCombinations: number): TryOnItem[][] =>
+  combinations.filter(combination => !excludedKeys.has(combinationKey(combination))).slice(0, maxCombinations);
+
+/**
+ * Estimates how long a batch of try-on calls takes through the request scheduler and what it costs.
+ * Cached combinations are free and instant, so this is an upper bound.
+ * @param calls The number of combinations to generate.
+ * @param scheduler The scheduler's current limits.
+ */
+export const estimateTryOnBatch = (calls: number, scheduler: SchedulerOptions): BatchEstimate => {
+  if (calls === 0) return { seconds: 0, costUsd: 0 };
+  // Whichever is slower wins: calls running side by side, or the rate limit refilling after the burst.
+  const byConcurrency = Math.ceil(calls / scheduler.concurrency) * SECONDS_PER_TRY_ON;
+  const byRateLimit = Math.max(0, calls - scheduler.burst) * 60 / scheduler.requestsPerMinute + SECONDS_PER_TRY_ON;
+  return { seconds: Math.max(byConcurrency, byRateLimit), costUsd: calls * COST_PER_TRY_ON_USD };
+};
@@ -0,0 +1,94 @@
+import { FilterItem, TryOnItem } from '../types';
+import { CATEGORY_IDS, OUTFIT_RULES, OutfitRules } from '../taxonomy';
+
+type SelectedItems = Record<string, FilterItem[]>;
+
+// One position in a look, e.g. "full-body item" or "footwear". Each option is what fills it in one look:
+// a single item, or every selected item at once for categories that are worn together.
+export interface LookSlot {
+  categories: string[];
+  options: TryOnItem[][];
+  // For layers: the categories this slot is worn over. Empty when the selection has none of them,
+  // in which case the layer is tried on like any other item rather than dropped.
+  layerOver: string[];
+}
+
+/**
+ * Selects or deselects an item, clearing whatever the rules say cannot be worn with it.
+ * @param selectedItems The current selection, grouped by category.
+ * @param item The item that was clicked.
+ * @param category The item's category.
+ * @returns The new selection.
+ */
+export const toggleSelection = (selectedItems: SelectedItems, item: FilterItem, category: string, rules: OutfitRules = OUTFIT_RULES): SelectedItems => {
+  const current = selectedItems[category] || [];
+  if (current.some(selected => selected.id === item.id)) {
+    return { ...selectedItems, [category]: current.filter(selected => selected.id !== item.id) };
+  }
+  const next = { ...selectedItems, [category]: [...current, item] };
+  rules.exclusions.forEach(({ between, and }) => {
+    const cleared = between.includes(category) ? and : and.includes(category) ? between : [];
+    cleared.forEach(id => { next[id] = []; });
+  });
+  return next;
+};
+
+/**
+ * Drops selections that break an exclusion, which can happen when a saved look or an older session
+ * is restored. The first side of an exclusion wins, as full-body items always have.
+ */
+const resolveExclusions = (selectedItems: SelectedItems, rules: OutfitRules): SelectedItems => {
+  const resolved = { ...selectedItems };
+  rules.exclusions.forEach(({ between, and }) => {
+    if (between.some(id => (resolved[id] || []).length > 0)) {
+      and.forEach(id => { resolved[id] = []; });
+    }
+  });
+  return resolved;
+};
+
+/**
+ * Splits a selection into the slots a look is built from, base slots first and layers last
+ * so a layer can see what it goes over.
+ * @param selectedItems The selection, grouped by category.
+ * @returns The slots that have at least one selected item.
+ */
+export const buildLookSlots = (selectedItems: SelectedItems, rules: OutfitRules = OUTFIT_RULES): LookSlot[] => {
+  const resolved = resolveExclusions(selectedItems, rules);
+  // Categories the taxonomy no longer knows still take part, after the known ones.
+  const categoryOrder = [...CATEGORY_IDS, ...Object.keys(resolved).filter(id => !CATEGORY_IDS.includes(id))];
+  const visited = new Set<string>();
+  const slots: LookSlot[] = [];
+
+  categoryOrder.forEach(category => {
+    if (visited.has(category)) return;
+    const categories = rules.sharedSlots.find(group => group.includes(category)) || [category];
+    categories.forEach(id => visited.add(id));
+    const items = categories.flatMap(id => (resolved[id] || []).map((item): TryOnItem => ({ ...item, category: id })));
+    if (items.length === 0) return;
+
+    const wornTogether = categories.every(id => rules.wornTogether.includes(id));
+    const layer = rules.layers.find(candidate => categories.includes(candidate.category));
+    const layerOver = (layer?.over || []).filter(id => (resolved[id] || []).length > 0);
+    slots.push({ categories, options: wornTogether ? [items] : items.map(item => [item]), layerOver });
+  });
+
+  return [...slots.filter(slot => slot.layerOver.length === 0), ...slots.filter(slot => slot.layerOver.length > 0)];
+};
+
+/**
+ * Puts together one look from the option chosen for each slot. A layer is only added to a look that
+ * has something it can go over, and each layered item records what it is worn over for the prompt.
+ * @param slots The slots from `buildLookSlots`.
+ * @param choices The index of the chosen option for each slot.
+ * @returns The look's items, base items first.
+ */
+export const assembleLook = (slots: LookSlot[], choices: number[]): TryOnItem[] =>
+  slots.reduce<TryOnItem[]>((look, slot, index) => {
+    const option = slot.options[choices[index]];
+    if (slot.layerOver.length === 0) {
+      return [...look, ...option];
+    }
+    const base = look.find(item => slot.layerOver.includes(item.category));
+    return base ? [...look, ...option.map(item => ({ ...item, wornOver: base.name }))] : look;
+  }, []);
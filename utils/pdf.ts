@@ -0,0 +1,62 @@
+export interface PdfImagePage {
+  jpeg: Uint8Array; // Baseline JPEG, embedded as-is
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+// A4 portrait in PDF points (1/72 inch).
+export const A4_POINTS = { width: 595.28, height: 841.89 };
+
+/**
+ * Writes a PDF with one full-page JPEG per page. Pages are laid out on a canvas beforehand, so this
+ * needs no fonts or layout of its own; JPEG data can be embedded without re-encoding.
+ * @param pages The page images, in order.
+ * @param pageSize The page size in points; every page image is stretched to fill it.
+ * @returns The PDF file.
+ */
+export const createImagePdf = (pages: PdfImagePage[], pageSize = A4_POINTS): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  // Objects are numbered from 1 in the order they are written; offsets feed the cross-reference table.
+  const writeObject = (body: string, stream?: Uint8Array) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  const width = pageSize.width.toFixed(2);
+  const height = pageSize.height.toFixed(2);
+  // Objects 1 and 2 are the catalog and page tree; each page then takes three: page, content, image.
+  const pageObjectNumber = (index: number) => 3 + index * 3;
+
+  write('%PDF-1.4\n%âãÏÓ\n');
+  writeObject('<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(`<< /Type /Pages /Kids [${pages.map((_, index) => `${pageObjectNumber(index)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  pages.forEach((page, index) => {
+    const pageNumber = pageObjectNumber(index);
+    writeObject(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${pageNumber + 2} 0 R >> >> /Contents ${pageNumber + 1} 0 R >>`);
+    const content = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`);
+    writeObject(`<< /Length ${content.length} >>`, content);
+    writeObject(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`, page.jpeg);
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${offset.toString().padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
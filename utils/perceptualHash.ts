@@ -0,0 +1,84 @@
+import { UploadedImage } from '../types';
+import { loadImageElement } from './imageUtils';
+
+// A difference hash compares neighbouring pixels of a tiny grayscale copy, so re-encoded,
+// resized or slightly recoloured copies of one photo end up with nearly the same 64 bits.
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Hashes this many bits apart or fewer are treated as the same photo.
+export const DUPLICATE_HASH_DISTANCE = 6;
+
+/**
+ * Computes a 64-bit difference hash of whatever is drawn on a canvas or image.
+ * @param source The image to hash; any size works.
+ * @returns The hash as 16 hex characters.
+ */
+export const hashImageSource = (source: CanvasImageSource): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+  // Transparent areas count as white, like the backdrop of most product shots.
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  context.drawImage(source, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const luminance = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      byte = (byte << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+};
+
+/**
+ * Counts the bits that differ between two hashes from `hashImageSource`.
+ */
+export const hashDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+// Hashes of images that were stored before uploads were hashed, computed once per session.
+const computedHashes = new Map<string, Promise<string>>();
+
+/**
+ * Returns an image's perceptual hash, computing it from the image itself if it was never stored.
+ * @param image The image to hash.
+ * @returns The hash, or null if the image could not be decoded.
+ */
+export const getPerceptualHash = async (image: UploadedImage): Promise<string | null> => {
+  if (image.perceptualHash) {
+    return image.perceptualHash;
+  }
+  const src = image.thumbnailUrl || image.url;
+  if (!computedHashes.has(src)) {
+    computedHashes.set(src, loadImageElement(src).then(hashImageSource));
+  }
+  try {
+    return await computedHashes.get(src)!;
+  } catch (error) {
+    computedHashes.delete(src);
+    console.warn(`Could not hash "${image.name}" for duplicate detection:`, error);
+    return null;
+  }
+};
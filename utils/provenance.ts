@@ -0,0 +1,93 @@
+import { Provenance, UploadedImage } from '../types';
+import { base64ToBlob } from './imageUtils';
+import { downloadBlob } from './download';
+import { getCategoryPath } from '../taxonomy';
+
+// PNG text keyword holding the full provenance record as JSON.
+export const PROVENANCE_PNG_KEYWORD = 'StyleStudio:Provenance';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// The signature plus the IHDR chunk, which must stay first: 8 + (4 length + 4 type + 13 data + 4 CRC).
+const IHDR_END = 33;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// An iTXt chunk rather than tEXt, because garment names and prompts are not always Latin-1.
+const createTextChunk = (keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  // Keyword, then no compression, no language tag and no translated keyword.
+  const data = new Uint8Array([...encoder.encode(keyword), 0, 0, 0, 0, 0, ...encoder.encode(text)]);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encoder.encode('iTXt'), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((byte, index) => bytes[index] === byte);
+
+/**
+ * Adds text metadata to a PNG, right after its header. Anything that is not a PNG is returned unchanged.
+ * @param bytes The PNG file.
+ * @param entries Keyword/text pairs; keywords must be 1-79 Latin-1 characters.
+ * @returns The PNG with one iTXt chunk per entry.
+ */
+export const embedPngText = (bytes: Uint8Array, entries: Record<string, string>): Uint8Array => {
+  if (!isPng(bytes)) return bytes;
+  const chunks = Object.entries(entries).map(([keyword, text]) => createTextChunk(keyword, text));
+  const result = new Uint8Array(bytes.length + chunks.reduce((total, chunk) => total + chunk.length, 0));
+  result.set(bytes.subarray(0, IHDR_END), 0);
+  let offset = IHDR_END;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  result.set(bytes.subarray(IHDR_END), offset);
+  return result;
+};
+
+/**
+ * Sums up a provenance record in one line, e.g. for the PNG "Description" field.
+ */
+export const summarizeProvenance = (provenance: Provenance): string => {
+  if (provenance.kind === 'edit' || provenance.kind === 'video') {
+    return `${provenance.kind === 'edit' ? 'Edit' : 'Video'} of ${provenance.source.name}: ${provenance.prompt || ''}`;
+  }
+  const items = (provenance.items || []).map(item => `${item.name} (${getCategoryPath(item.category)})`).join(', ');
+  return `Try-on of ${items} on ${provenance.source.name}`;
+};
+
+/**
+ * Downloads an image under its name. Generated images carry their provenance as PNG text metadata,
+ * so the file alone shows which garments and settings produced it.
+ * @returns A Promise that rejects if the file could not be prepared; callers should tell the user.
+ */
+export const downloadImage = async (image: UploadedImage): Promise<void> => {
+  let blob = base64ToBlob(image.base64, image.mimeType);
+  if (image.provenance) {
+    const bytes = embedPngText(new Uint8Array(await blob.arrayBuffer()), {
+      Description: summarizeProvenance(image.provenance),
+      'Creation Time': new Date(image.provenance.createdAt).toUTCString(),
+      Software: 'Creative Studio',
+      [PROVENANCE_PNG_KEYWORD]: JSON.stringify(image.provenance),
+    });
+    blob = new Blob([bytes], { type: image.mimeType });
+  }
+  downloadBlob(blob, image.name);
+};
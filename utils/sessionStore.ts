@@ -0,0 +1,216 @@
+import { GeneratedVideo, ImageLineage, Provenance, UploadedImage } from '../types';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { base64ToBlob, readFileAsBase64 } from './imageUtils';
+
+type CreativeMode = 'try-on' | 'edit' | 'video';
+
+interface StoredWorkspaceItem {
+  key: string;
+  position: number;
+  name: string;
+  mimeType: string;
+  blob: Blob;
+  provenance?: Provenance; // Missing for photos and for results saved before provenance was recorded
+  lineage?: ImageLineage; // Missing for images saved before edit history was recorded
+}
+
+// The latest results shown in "See Your Creation", stored as one record. Generated images are
+// workspace items too, so only their lineage ids are kept here.
+interface StoredResults {
+  key: typeof RESULTS_KEY;
+  mode: CreativeMode;
+  itemIds?: string[]; // Missing for results saved as separate image copies, which are not restored
+  video: Blob | null;
+  videoProvenance?: Provenance;
+  elapsedTime: number | null;
+}
+
+interface StoredSelection {
+  key: typeof SELECTION_KEY;
+  workspaceKey: string | null;
+}
+
+export interface SessionResults {
+  mode: CreativeMode;
+  images: UploadedImage[]; // The results' workspace items
+  video: GeneratedVideo | null;
+  elapsedTime: number | null;
+}
+
+export interface RestoredSession {
+  workspaceItems: UploadedImage[];
+  selectedImage: UploadedImage | null;
+  results: SessionResults | null;
+}
+
+const DB_NAME = 'style_studio_session';
+const DB_VERSION = 1;
+const WORKSPACE_STORE = 'workspace';
+const STATE_STORE = 'state';
+const RESULTS_KEY = 'results';
+const SELECTION_KEY = 'selection';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      db.createObjectStore(WORKSPACE_STORE, { keyPath: 'key' });
+      db.createObjectStore(STATE_STORE, { keyPath: 'key' });
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Workspace images have no id of their own; their object URL is unique for the page's lifetime,
+// so it maps each one to its stored record.
+const storedKeysByUrl = new Map<string, string>();
+// The video is fetched from its object URL only once, however often the results are saved.
+let storedVideo: { url: string; blob: Blob } | null = null;
+
+// Writes are chained so quick successive saves never interleave.
+let writeQueue: Promise<void> = Promise.resolve();
+
+const enqueue = (write: () => Promise<void>): Promise<void> => {
+  const queued = writeQueue.then(write);
+  writeQueue = queued.catch(() => undefined);
+  return queued;
+};
+
+/**
+ * Saves the workspace photos and which one is selected. Only new photos are written;
+ * photos no longer in the workspace are deleted.
+ * @param items The workspace items, newest first.
+ * @param selectedImage The selected workspace item, if any.
+ * @returns A Promise that rejects if the write fails, e.g. because the storage quota is full.
+ */
+export const saveWorkspace = (items: UploadedImage[], selectedImage: UploadedImage | null): Promise<void> => enqueue(async () => {
+  const records = items.map((item, position) => {
+    const existingKey = storedKeysByUrl.get(item.url);
+    return {
+      key: existingKey || crypto.randomUUID(),
+      isNew: !existingKey,
+      position,
+      item,
+    };
+  });
+  // Decoding base64 is the slow part of a save, so it happens before the transaction opens to keep it short.
+  const newBlobs = new Map(records.filter(record => record.isNew).map(record =>
+    [record.key, base64ToBlob(record.item.base64, record.item.mimeType)]
+  ));
+
+  const db = await getDb();
+  const transaction = db.transaction([WORKSPACE_STORE, STATE_STORE], 'readwrite');
+  const workspaceStore = transaction.objectStore(WORKSPACE_STORE);
+  const currentKeys = new Set(records.map(record => record.key));
+  const storedRecords = (await requestToPromise(workspaceStore.getAll())) as StoredWorkspaceItem[];
+  storedRecords.forEach(stored => {
+    if (!currentKeys.has(stored.key)) {
+      workspaceStore.delete(stored.key);
+    } else {
+      const record = records.find(candidate => candidate.key === stored.key)!;
+      if (record.position !== stored.position) {
+        workspaceStore.put({ ...stored, position: record.position });
+      }
+    }
+  });
+  records.filter(record => record.isNew).forEach(({ key, position, item }) => {
+    workspaceStore.put({ key, position, name: item.name, mimeType: item.mimeType, blob: newBlobs.get(key)!, provenance: item.provenance, lineage: item.lineage } as StoredWorkspaceItem);
+  });
+  const selected = records.find(record => record.item.url === selectedImage?.url);
+  transaction.objectStore(STATE_STORE).put({ key: SELECTION_KEY, workspaceKey: selected?.key || null } as StoredSelection);
+  await transactionDone(transaction);
+
+  storedKeysByUrl.clear();
+  records.forEach(({ key, item }) => storedKeysByUrl.set(item.url, key));
+});
+
+/**
+ * Saves the latest generated results, replacing the previous ones.
+ * @param results The results currently on screen.
+ * @returns A Promise that rejects if the write fails.
+ */
+export const saveResults = (results: SessionResults): Promise<void> => enqueue(async () => {
+  let video: Blob | null = null;
+  if (results.video) {
+    if (storedVideo?.url !== results.video.url) {
+      storedVideo = { url: results.video.url, blob: await (await fetch(results.video.url)).blob() };
+    }
+    video = storedVideo.blob;
+  }
+  const record: StoredResults = {
+    key: RESULTS_KEY,
+    mode: results.mode,
+    itemIds: results.images.flatMap(image => image.lineage ? [image.lineage.id] : []),
+    video,
+    videoProvenance: results.video?.provenance,
+    elapsedTime: results.elapsedTime,
+  };
+
+  const db = await getDb();
+  const transaction = db.transaction(STATE_STORE, 'readwrite');
+  transaction.objectStore(STATE_STORE).put(record);
+  await transactionDone(transaction);
+});
+
+/**
+ * Loads the workspace and latest results saved by a previous visit, with fresh object URLs.
+ * @returns The restored session; empty if nothing was saved.
+ */
+export const loadSession = async (): Promise<RestoredSession> => {
+  const db = await getDb();
+  const transaction = db.transaction([WORKSPACE_STORE, STATE_STORE], 'readonly');
+  const storedItems = (await requestToPromise(transaction.objectStore(WORKSPACE_STORE).getAll())) as StoredWorkspaceItem[];
+  const storedResults = (await requestToPromise(transaction.objectStore(STATE_STORE).get(RESULTS_KEY))) as StoredResults | undefined;
+  const storedSelection = (await requestToPromise(transaction.objectStore(STATE_STORE).get(SELECTION_KEY))) as StoredSelection | undefined;
+
+  const workspaceItems: UploadedImage[] = [];
+  let selectedImage: UploadedImage | null = null;
+  for (const stored of storedItems.sort((a, b) => a.position - b.position)) {
+    const item: UploadedImage = {
+      base64: await readFileAsBase64(stored.blob),
+      mimeType: stored.mimeType,
+      url: URL.createObjectURL(stored.blob),
+      name: stored.name,
+      provenance: stored.provenance,
+      // Older images start their own history; the record key is already a unique id.
+      lineage: stored.lineage || { id: stored.key, parentId: null, operation: 'Photo' },
+    };
+    storedKeysByUrl.set(item.url, stored.key);
+    workspaceItems.push(item);
+    if (stored.key === storedSelection?.workspaceKey) {
+      selectedImage = item;
+    }
+  }
+
+  let results: SessionResults | null = null;
+  if (storedResults) {
+    const videoUrl = storedResults.video ? URL.createObjectURL(storedResults.video) : null;
+    if (videoUrl && storedResults.video) {
+      storedVideo = { url: videoUrl, blob: storedResults.video };
+    }
+    // Results removed from the workspace since are dropped.
+    const itemsById = new Map(workspaceItems.map(item => [item.lineage?.id, item]));
+    results = {
+      mode: storedResults.mode,
+      images: (storedResults.itemIds || []).flatMap(id => itemsById.get(id) || []),
+      video: videoUrl ? { url: videoUrl, provenance: storedResults.videoProvenance } : null,
+      elapsedTime: storedResults.elapsedTime,
+    };
+  }
+  return { workspaceItems, selectedImage, results };
+};
+
+/**
+ * Removes the saved workspace and results.
+ */
+export const clearSession = (): Promise<void> => enqueue(async () => {
+  const db = await getDb();
+  const transaction = db.transaction([WORKSPACE_STORE, STATE_STORE], 'readwrite');
+  transaction.objectStore(WORKSPACE_STORE).clear();
+  transaction.objectStore(STATE_STORE).clear();
+  await transactionDone(transaction);
+  storedKeysByUrl.clear();
+  storedVideo = null;
+});
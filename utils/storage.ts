@@ -1,34 +1,28 @@
-import { FilterItem } from '../types';
+import { CameraSettings, CategoryCorrection, FilterItem, Presentation, SavedLook, VideoJob } from '../types';
 
 type CatalogueData = Record<string, FilterItem[]>;
 
 const FEMALE_CATALOGUE_KEY = 'style_studio_female_catalogue';
 const MALE_CATALOGUE_KEY = 'style_studio_male_catalogue';
+const VIDEO_JOB_KEY = 'style_studio_video_job';
+const CACHE_ENABLED_KEY = 'style_studio_cache_enabled';
+const CATEGORY_CORRECTIONS_KEY = 'style_studio_category_corrections';
+const ACTIVE_WARDROBE_KEY = 'style_studio_active_wardrobe';
+const PRESENTATION_KEY = 'style_studio_presentation';
+const SAVED_LOOKS_KEY = 'style_studio_saved_looks';
+const GARMENT_CLEANUP_KEY = 'style_studio_garment_cleanup';
+const CAMERA_SETTINGS_KEY = 'style_studio_camera_settings';
 
-/**
- * Saves the clothing catalogue to local storage.
- * @param gender The gender for which to save the catalogue.
- * @param catalogue The catalogue data to save.
- */
-export const saveCatalogueToStorage = (
-  gender: 'female' | 'male',
-  catalogue: CatalogueData
-): void => {
-  try {
-    const key = gender === 'female' ? FEMALE_CATALOGUE_KEY : MALE_CATALOGUE_KEY;
-    const serializedCatalogue = JSON.stringify(catalogue);
-    localStorage.setItem(key, serializedCatalogue);
-  } catch (error) {
-    console.error("Could not save catalogue to local storage:", error);
-  }
-};
+// Only the most recent corrections are kept; the newest are sent to the classifier as hints.
+const MAX_CATEGORY_CORRECTIONS = 200;
 
 /**
- * Loads the clothing catalogue from local storage.
+ * Loads a catalogue saved by older versions of the app, which kept whole catalogues
+ * (images included) as JSON in local storage. Only used to migrate them to IndexedDB.
  * @param gender The gender for which to load the catalogue.
- * @returns The loaded catalogue data, or null if not found or an error occurs.
+ * @returns The legacy catalogue data, or null if not found or an error occurs.
  */
-export const loadCatalogueFromStorage = (
+export const loadLegacyCatalogueFromStorage = (
   gender: 'female' | 'male'
 ): CatalogueData | null => {
   try {
@@ -39,19 +33,235 @@ export const loadCatalogueFromStorage = (
     }
     return JSON.parse(serializedCatalogue);
   } catch (error) {
-    console.error("Could not load catalogue from local storage:", error);
+    console.error("Could not load legacy catalogue from local storage:", error);
     return null;
   }
 };
 
 /**
- * Clears all catalogue data from local storage.
+ * Removes a legacy local storage catalogue once it has been migrated.
+ * @param gender The gender whose legacy catalogue to remove.
  */
-export const clearAllCataloguesFromStorage = (): void => {
+export const clearLegacyCatalogueFromStorage = (gender: 'female' | 'male'): void => {
     try {
-        localStorage.removeItem(FEMALE_CATALOGUE_KEY);
-        localStorage.removeItem(MALE_CATALOGUE_KEY);
+        localStorage.removeItem(gender === 'female' ? FEMALE_CATALOGUE_KEY : MALE_CATALOGUE_KEY);
     } catch (error) {
-        console.error("Could not clear catalogues from local storage:", error);
+        console.error("Could not clear legacy catalogue from local storage:", error);
     }
 };
+
+/**
+ * Saves the in-progress video job so it can be resumed after a reload.
+ * @param job The video job to save.
+ */
+export const saveVideoJobToStorage = (job: VideoJob): void => {
+  try {
+    localStorage.setItem(VIDEO_JOB_KEY, JSON.stringify(job));
+  } catch (error) {
+    console.error("Could not save video job to local storage:", error);
+  }
+};
+
+/**
+ * Loads the in-progress video job, if any.
+ * @returns The saved video job, or null if not found or an error occurs.
+ */
+export const loadVideoJobFromStorage = (): VideoJob | null => {
+  try {
+    const serializedJob = localStorage.getItem(VIDEO_JOB_KEY);
+    return serializedJob === null ? null : JSON.parse(serializedJob);
+  } catch (error) {
+    console.error("Could not load video job from local storage:", error);
+    return null;
+  }
+};
+
+/**
+ * Forgets the in-progress video job once it has finished, failed or been cancelled.
+ */
+export const clearVideoJobFromStorage = (): void => {
+  try {
+    localStorage.removeItem(VIDEO_JOB_KEY);
+  } catch (error) {
+    console.error("Could not clear video job from local storage:", error);
+  }
+};
+
+/**
+ * Saves whether cached AI results should be reused.
+ * @param enabled The user's choice.
+ */
+export const saveCacheEnabledToStorage = (enabled: boolean): void => {
+  try {
+    localStorage.setItem(CACHE_ENABLED_KEY, String(enabled));
+  } catch (error) {
+    console.error("Could not save cache preference to local storage:", error);
+  }
+};
+
+/**
+ * Loads whether cached AI results should be reused. Defaults to true.
+ * @returns The saved preference.
+ */
+export const loadCacheEnabledFromStorage = (): boolean => {
+  try {
+    return localStorage.getItem(CACHE_ENABLED_KEY) !== 'false';
+  } catch (error) {
+    console.error("Could not load cache preference from local storage:", error);
+    return true;
+  }
+};
+
+/**
+ * Saves whether new styles have their backgrounds cleaned up on upload.
+ * @param enabled The user's choice.
+ */
+export const saveGarmentCleanupEnabledToStorage = (enabled: boolean): void => {
+  try {
+    localStorage.setItem(GARMENT_CLEANUP_KEY, String(enabled));
+  } catch (error) {
+    console.error("Could not save background cleanup preference to local storage:", error);
+  }
+};
+
+/**
+ * Loads whether new styles have their backgrounds cleaned up on upload. Defaults to true.
+ * @returns The saved preference.
+ */
+export const loadGarmentCleanupEnabledFromStorage = (): boolean => {
+  try {
+    return localStorage.getItem(GARMENT_CLEANUP_KEY) !== 'false';
+  } catch (error) {
+    console.error("Could not load background cleanup preference from local storage:", error);
+    return true;
+  }
+};
+
+/**
+ * Saves the live camera's settings.
+ * @param settings The settings to save.
+ */
+export const saveCameraSettingsToStorage = (settings: CameraSettings): void => {
+  try {
+    localStorage.setItem(CAMERA_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Could not save camera settings to local storage:", error);
+  }
+};
+
+/**
+ * Loads the live camera's settings.
+ * @returns Whatever settings were saved; the caller fills in defaults for the rest.
+ */
+export const loadCameraSettingsFromStorage = (): Partial<CameraSettings> => {
+  try {
+    const saved = localStorage.getItem(CAMERA_SETTINGS_KEY);
+    return (saved && JSON.parse(saved)) || {};
+  } catch (error) {
+    console.error("Could not load camera settings from local storage:", error);
+    return {};
+  }
+};
+
+/**
+ * Loads the record of items the user moved out of their AI-assigned category.
+ * @returns The saved corrections, oldest first, or an empty list on error.
+ */
+export const loadCategoryCorrectionsFromStorage = (): CategoryCorrection[] => {
+  try {
+    const serializedCorrections = localStorage.getItem(CATEGORY_CORRECTIONS_KEY);
+    return serializedCorrections === null ? [] : JSON.parse(serializedCorrections);
+  } catch (error) {
+    console.error("Could not load category corrections from local storage:", error);
+    return [];
+  }
+};
+
+/**
+ * Saves the record of category corrections, keeping only the most recent ones.
+ * @param corrections The corrections to save, oldest first.
+ */
+export const saveCategoryCorrectionsToStorage = (corrections: CategoryCorrection[]): void => {
+  try {
+    localStorage.setItem(CATEGORY_CORRECTIONS_KEY, JSON.stringify(corrections.slice(-MAX_CATEGORY_CORRECTIONS)));
+  } catch (error) {
+    console.error("Could not save category corrections to local storage:", error);
+  }
+};
+
+/**
+ * Saves which wardrobe is being browsed, so a reload reopens it.
+ * @param wardrobeId The active wardrobe's id.
+ */
+export const saveActiveWardrobeIdToStorage = (wardrobeId: string): void => {
+  try {
+    localStorage.setItem(ACTIVE_WARDROBE_KEY, wardrobeId);
+  } catch (error) {
+    console.error("Could not save active wardrobe to local storage:", error);
+  }
+};
+
+/**
+ * Loads which wardrobe was last browsed.
+ * @returns The wardrobe id, or null if none was saved.
+ */
+export const loadActiveWardrobeIdFromStorage = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_WARDROBE_KEY);
+  } catch (error) {
+    console.error("Could not load active wardrobe from local storage:", error);
+    return null;
+  }
+};
+
+/**
+ * Saves how the subject presents, which is used in try-on prompts.
+ * @param presentation The user's choice.
+ */
+export const savePresentationToStorage = (presentation: Presentation): void => {
+  try {
+    localStorage.setItem(PRESENTATION_KEY, presentation);
+  } catch (error) {
+    console.error("Could not save presentation to local storage:", error);
+  }
+};
+
+/**
+ * Loads how the subject presents. Defaults to 'female', the app's original default.
+ * @returns The saved presentation.
+ */
+export const loadPresentationFromStorage = (): Presentation => {
+  try {
+    const saved = localStorage.getItem(PRESENTATION_KEY);
+    return saved === 'male' || saved === 'neutral' ? saved : 'female';
+  } catch (error) {
+    console.error("Could not load presentation from local storage:", error);
+    return 'female';
+  }
+};
+
+/**
+ * Saves the user's named looks. Their thumbnails are small data URLs, so they fit in local storage.
+ * @param looks Every saved look, across all wardrobes.
+ */
+export const saveSavedLooksToStorage = (looks: SavedLook[]): void => {
+  try {
+    localStorage.setItem(SAVED_LOOKS_KEY, JSON.stringify(looks));
+  } catch (error) {
+    console.error("Could not save looks to local storage:", error);
+  }
+};
+
+/**
+ * Loads the user's named looks.
+ * @returns The saved looks, or an empty list if there are none or an error occurs.
+ */
+export const loadSavedLooksFromStorage = (): SavedLook[] => {
+  try {
+    const serializedLooks = localStorage.getItem(SAVED_LOOKS_KEY);
+    return serializedLooks === null ? [] : JSON.parse(serializedLooks);
+  } catch (error) {
+    console.error("Could not load looks from local storage:", error);
+    return [];
+  }
+};
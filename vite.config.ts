@@ -8,11 +8,15 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Forward AI calls to the local API server (npm run server), which holds the Gemini key.
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 3001}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || ''),
+        'process.env.GENERATION_PROVIDER': JSON.stringify(env.GENERATION_PROVIDER || 'gemini')
       },
       resolve: {
         alias: {